@@ -0,0 +1,320 @@
+// ipywidgets 渲染器
+// 渲染 application/vnd.jupyter.widget-view+json 输出，组件状态通过 RendererMessaging 与扩展同步。
+// 仅实现常用的核心组件（滑块、进度条、按钮、输入框、选择框、布局容器、Output 等）。
+
+const MODEL_PREFIX = 'IPY_MODEL_';
+
+export function activate(context) {
+    // model_id -> 状态
+    const models = new Map();
+    // model_id -> 已渲染视图 { element, update }
+    const views = new Map();
+    // 等待状态到达的视图
+    const pending = new Map();
+
+    const send = (message) => context.postMessage && context.postMessage(message);
+
+    const refresh = (modelId) => {
+        // 清理已从页面移除的视图（容器重新渲染子组件时产生）
+        const alive = (views.get(modelId) || []).filter(view => view.element.isConnected);
+        views.set(modelId, alive);
+        alive.forEach(view => view.update(models.get(modelId) || {}));
+        const waiting = pending.get(modelId);
+        if (waiting && models.has(modelId)) {
+            pending.delete(modelId);
+            waiting.forEach(render => render());
+        }
+    };
+
+    if (context.onDidReceiveMessage) {
+        context.onDidReceiveMessage(message => {
+            if (message.type === 'state') {
+                for (const [modelId, state] of Object.entries(message.models || {})) {
+                    models.set(modelId, state);
+                    refresh(modelId);
+                }
+            } else if (message.type === 'update') {
+                models.set(message.modelId, Object.assign(models.get(message.modelId) || {}, message.state));
+                refresh(message.modelId);
+            } else if (message.type === 'close') {
+                models.delete(message.modelId);
+                refresh(message.modelId);
+            } else if (message.type === 'reset') {
+                models.clear();
+                for (const modelId of views.keys()) {
+                    refresh(modelId);
+                }
+            }
+        });
+    }
+
+    const setState = (modelId, state) => {
+        models.set(modelId, Object.assign(models.get(modelId) || {}, state));
+        send({ type: 'update', modelId, state });
+    };
+
+    const register = (modelId, element, update) => {
+        const list = views.get(modelId) || [];
+        list.push({ element, update });
+        views.set(modelId, list);
+        update(models.get(modelId) || {});
+    };
+
+    const describe = (container, state) => {
+        if (state.description) {
+            const label = document.createElement('label');
+            label.textContent = state.description;
+            label.style.minWidth = '80px';
+            label.style.marginRight = '8px';
+            container.appendChild(label);
+        }
+    };
+
+    const row = () => {
+        const div = document.createElement('div');
+        div.style.display = 'flex';
+        div.style.alignItems = 'center';
+        div.style.margin = '2px 0';
+        return div;
+    };
+
+    const renderOutputs = (container, outputs) => {
+        container.textContent = '';
+        for (const output of outputs || []) {
+            let node;
+            if (output.output_type === 'stream') {
+                node = document.createElement('pre');
+                node.textContent = output.text;
+                if (output.name === 'stderr') {
+                    node.style.color = 'var(--vscode-errorForeground)';
+                }
+            } else if (output.output_type === 'error') {
+                node = document.createElement('pre');
+                node.textContent = (output.traceback || []).join('\n').replace(/\x1b\[[0-9;]*[A-Za-z]/g, '');
+                node.style.color = 'var(--vscode-errorForeground)';
+            } else {
+                const data = output.data || {};
+                node = document.createElement('div');
+                if (data['application/vnd.jupyter.widget-view+json']) {
+                    renderModel(data['application/vnd.jupyter.widget-view+json'].model_id, node);
+                } else if (data['text/html']) {
+                    node.innerHTML = [].concat(data['text/html']).join('');
+                } else if (data['image/png']) {
+                    const img = document.createElement('img');
+                    img.src = `data:image/png;base64,${data['image/png']}`;
+                    node.appendChild(img);
+                } else if (data['text/plain'] !== undefined) {
+                    const pre = document.createElement('pre');
+                    pre.textContent = [].concat(data['text/plain']).join('');
+                    node.appendChild(pre);
+                }
+            }
+            node.style.margin = '0';
+            container.appendChild(node);
+        }
+    };
+
+    const renderers = {
+        SliderModel(container, modelId, state) {
+            const line = row();
+            describe(line, state);
+            const input = document.createElement('input');
+            input.type = 'range';
+            const readout = document.createElement('span');
+            readout.style.marginLeft = '8px';
+            const isInt = state._model_name.startsWith('Int');
+            input.oninput = () => {
+                readout.textContent = input.value;
+            };
+            input.onchange = () => setState(modelId, { value: isInt ? parseInt(input.value, 10) : parseFloat(input.value) });
+            line.append(input, readout);
+            container.appendChild(line);
+            return (s) => {
+                input.min = s.min;
+                input.max = s.max;
+                input.step = s.step || 1;
+                input.value = s.value;
+                input.disabled = !!s.disabled;
+                readout.textContent = s.readout === false ? '' : String(s.value);
+            };
+        },
+        ProgressModel(container, modelId, state) {
+            const line = row();
+            describe(line, state);
+            const progress = document.createElement('progress');
+            progress.style.width = '300px';
+            line.appendChild(progress);
+            container.appendChild(line);
+            return (s) => {
+                progress.max = s.max - s.min;
+                progress.value = s.value - s.min;
+            };
+        },
+        ButtonModel(container, modelId) {
+            const button = document.createElement('button');
+            button.onclick = () => send({ type: 'custom', modelId, content: { event: 'click' } });
+            container.appendChild(button);
+            return (s) => {
+                button.textContent = s.description || '';
+                button.title = s.tooltip || '';
+                button.disabled = !!s.disabled;
+            };
+        },
+        CheckboxModel(container, modelId, state) {
+            const line = row();
+            const input = document.createElement('input');
+            input.type = 'checkbox';
+            input.onchange = () => setState(modelId, { value: input.checked });
+            line.appendChild(input);
+            describe(line, state);
+            container.appendChild(line);
+            return (s) => {
+                input.checked = !!s.value;
+                input.disabled = !!s.disabled;
+            };
+        },
+        TextModel(container, modelId, state) {
+            const line = row();
+            describe(line, state);
+            const multiline = state._model_name === 'TextareaModel';
+            const input = document.createElement(multiline ? 'textarea' : 'input');
+            const numeric = /Int|Float/.test(state._model_name);
+            if (numeric) {
+                input.type = 'number';
+            } else if (state._model_name === 'PasswordModel') {
+                input.type = 'password';
+            }
+            input.onchange = () => {
+                const value = numeric ? Number(input.value) : input.value;
+                setState(modelId, { value });
+            };
+            line.appendChild(input);
+            container.appendChild(line);
+            return (s) => {
+                if (document.activeElement !== input) {
+                    input.value = s.value ?? '';
+                }
+                input.placeholder = s.placeholder || '';
+                input.disabled = !!s.disabled;
+            };
+        },
+        SelectionModel(container, modelId, state) {
+            const line = row();
+            describe(line, state);
+            const select = document.createElement('select');
+            select.onchange = () => setState(modelId, { index: select.selectedIndex });
+            line.appendChild(select);
+            container.appendChild(line);
+            return (s) => {
+                select.textContent = '';
+                (s._options_labels || []).forEach((label, i) => {
+                    const option = document.createElement('option');
+                    option.textContent = label;
+                    option.selected = i === s.index;
+                    select.appendChild(option);
+                });
+                select.disabled = !!s.disabled;
+            };
+        },
+        LabelModel(container, modelId, state) {
+            const node = document.createElement('div');
+            container.appendChild(node);
+            const html = state._model_name !== 'LabelModel';
+            return (s) => {
+                if (html) {
+                    node.innerHTML = s.value || '';
+                } else {
+                    node.textContent = s.value || '';
+                }
+            };
+        },
+        BoxModel(container, modelId, state) {
+            const box = document.createElement('div');
+            box.style.display = 'flex';
+            box.style.flexDirection = state._model_name === 'HBoxModel' ? 'row' : 'column';
+            box.style.gap = '4px';
+            container.appendChild(box);
+            return (s) => {
+                box.textContent = '';
+                for (const child of s.children || []) {
+                    const node = document.createElement('div');
+                    box.appendChild(node);
+                    renderModel(String(child).replace(MODEL_PREFIX, ''), node);
+                }
+            };
+        },
+        OutputModel(container) {
+            const node = document.createElement('div');
+            container.appendChild(node);
+            return (s) => renderOutputs(node, s.outputs);
+        }
+    };
+
+    const rendererFor = (modelName) => {
+        if (/SliderModel$/.test(modelName)) {
+            return renderers.SliderModel;
+        }
+        if (/ProgressModel$/.test(modelName)) {
+            return renderers.ProgressModel;
+        }
+        if (/^(Text|Textarea|Password|IntText|FloatText|BoundedIntText|BoundedFloatText)Model$/.test(modelName)) {
+            return renderers.TextModel;
+        }
+        if (/^(Dropdown|RadioButtons|Select|ToggleButtons)Model$/.test(modelName)) {
+            return renderers.SelectionModel;
+        }
+        if (/^(Checkbox|ToggleButton)Model$/.test(modelName)) {
+            return renderers.CheckboxModel;
+        }
+        if (/^(Label|HTML|HTMLMath)Model$/.test(modelName)) {
+            return renderers.LabelModel;
+        }
+        if (/^(Box|HBox|VBox|GridBox)Model$/.test(modelName)) {
+            return renderers.BoxModel;
+        }
+        return renderers[modelName];
+    };
+
+    function renderModel(modelId, element) {
+        const render = () => {
+            element.textContent = '';
+            const state = models.get(modelId);
+            if (!state) {
+                return;
+            }
+            const renderer = rendererFor(state._model_name);
+            if (!renderer) {
+                element.textContent = `[Widget: ${state._model_name}]`;
+                return;
+            }
+            const update = renderer(element, modelId, state);
+            register(modelId, element, (s) => {
+                if (!models.has(modelId)) {
+                    element.textContent = '组件已关闭';
+                    return;
+                }
+                update(s);
+            });
+        };
+
+        if (models.has(modelId)) {
+            render();
+        } else {
+            element.textContent = '正在加载组件...';
+            const list = pending.get(modelId) || [];
+            list.push(render);
+            pending.set(modelId, list);
+        }
+    }
+
+    return {
+        renderOutputItem(outputItem, element) {
+            const { model_id: modelId } = outputItem.json();
+            renderModel(modelId, element);
+            send({ type: 'requestState' });
+        },
+        disposeOutputItem() {
+            // 视图随输出元素一起销毁
+        }
+    };
+}
@@ -16,6 +16,8 @@ export interface KernelSpec {
         display_name: string;
         argv: string[];
         env?: Record<string, string>;
+        /** 中断方式：signal（默认，由服务器发信号）或 message（通过 control 通道发送 interrupt_request） */
+        interrupt_mode?: 'signal' | 'message';
     };
     resources: Record<string, any>;
 }
@@ -27,7 +29,7 @@ export interface KernelInfo {
     id: string;
     name: string;
     last_activity: string;
-    execution_state: 'idle' | 'busy' | 'starting';
+    execution_state: 'idle' | 'busy' | 'starting' | 'restarting' | 'dead';
     connections: number;
 }
 
@@ -105,14 +107,13 @@ export class KernelsApi {
      */
     async createSession(notebookPath: string, kernelName: string): Promise<SessionModel> {
         const url = `${this.baseUrl}/api/sessions`;
+        // 字段位于请求体顶层（jupyter_server 的 SessionRootHandler 直接读取 path/type/name/kernel）
         const data = {
-            session: {
-                path: notebookPath,
-                type: 'notebook',
-                name: notebookPath.split('/').pop() || notebookPath,
-                kernel: {
-                    name: kernelName
-                }
+            path: notebookPath,
+            type: 'notebook',
+            name: notebookPath.split('/').pop() || notebookPath,
+            kernel: {
+                name: kernelName
             }
         };
 
@@ -121,6 +122,31 @@ export class KernelsApi {
         return response.data;
     }
 
+    /**
+     * 按 notebook 路径查找已存在的会话（包括浏览器中 JupyterLab 创建的会话）
+     */
+    async findSessionByPath(notebookPath: string): Promise<SessionModel | undefined> {
+        const sessions = await this.listSessions();
+        return sessions.find(s => (s.path || s.notebook?.path) === notebookPath);
+    }
+
+    /**
+     * 为会话切换内核（旧内核会被服务器关闭）
+     */
+    async changeSessionKernel(sessionId: string, kernelName: string): Promise<SessionModel> {
+        const url = `${this.baseUrl}/api/sessions/${sessionId}`;
+        const response = await this.client.patch<SessionModel>(url, { kernel: { name: kernelName } });
+        return response.data;
+    }
+
+    /**
+     * 删除会话（同时关闭其内核）
+     */
+    async deleteSession(sessionId: string): Promise<void> {
+        const url = `${this.baseUrl}/api/sessions/${sessionId}`;
+        await this.client.delete(url);
+    }
+
     /**
      * 启动新内核
      */
@@ -13,11 +13,19 @@ import { KernelProvider } from './providers/kernelProvider';
 import { ServerProvider } from './providers/serverProvider';
 import { JupyterHubFileSystemProvider } from './providers/fileSystemProvider';
 import { KernelControllerManager } from './providers/kernelControllerManager';
+import { RemoteCompletionProvider } from './kernel/completionProvider';
+import { KERNEL_DEBUG_TYPE, KernelDebugAdapterFactory } from './kernel/debugAdapter';
+import { MessageTracer } from './kernel/messageTracer';
+import { RemoteHoverProvider } from './kernel/hoverProvider';
+import { RemoteSignatureHelpProvider } from './kernel/signatureHelpProvider';
+import { SCRIPT_LANGUAGES, ScriptCodeLensProvider, ScriptRunner } from './kernel/scriptRunner';
+import { WidgetBridge } from './kernel/widgetBridge';
 import { RemoteTerminal } from './terminal/remoteTerminal';
 import { ConfigManager } from './utils/config';
 import { Logger } from './utils/logger';
 import { SecretStorageManager } from './utils/secretStorage';
 import { MetricsManager } from './managers/metricsManager';
+import { KernelStatusManager } from './managers/kernelStatusManager';
 import { buildHubTokenPageUrl, getHubStoragePathParts, normalizeHubBaseUrl } from './utils/url';
 import * as os from 'os';
 import * as path from 'path';
@@ -37,12 +45,15 @@ let kernelProvider: KernelProvider;
 let serverProvider: ServerProvider;
 let fileSystemProvider: JupyterHubFileSystemProvider;
 let kernelControllerManager: KernelControllerManager;
+let widgetBridge: WidgetBridge;
 let fileTreeView: vscode.TreeView<any> | null = null;
 let extensionContext: vscode.ExtensionContext | null = null;
 
 // Managers
 let secretStorageManager: SecretStorageManager;
 let metricsManager: MetricsManager;
+let kernelStatusManager: KernelStatusManager;
+let scriptRunner: ScriptRunner;
 
 // 终端管理
 const terminalMap = new Map<string, vscode.Terminal>();
@@ -140,7 +151,13 @@ export function activate(context: vscode.ExtensionContext) {
         kernelProvider = new KernelProvider();
         serverProvider = new ServerProvider();
         fileSystemProvider = new JupyterHubFileSystemProvider(null as any);
-        kernelControllerManager = new KernelControllerManager();
+        widgetBridge = new WidgetBridge();
+        context.subscriptions.push(widgetBridge);
+        kernelControllerManager = new KernelControllerManager(widgetBridge);
+        kernelStatusManager = new KernelStatusManager(kernelControllerManager);
+        context.subscriptions.push(kernelStatusManager);
+        scriptRunner = new ScriptRunner(kernelControllerManager, context.extension.id);
+        context.subscriptions.push(scriptRunner);
         fileTreeProvider.setExtensionUri(context.extensionUri);
 
         // 初始化剪贴板上下文
@@ -175,6 +192,43 @@ export function activate(context: vscode.ExtensionContext) {
             })
         );
 
+        // 注册远程内核语言功能（仅对已连接远程内核的 notebook Cell 生效）
+        context.subscriptions.push(
+            vscode.languages.registerCompletionItemProvider(
+                { scheme: 'vscode-notebook-cell' },
+                new RemoteCompletionProvider(kernelControllerManager),
+                '.'
+            )
+        );
+        context.subscriptions.push(
+            vscode.languages.registerHoverProvider(
+                { scheme: 'vscode-notebook-cell' },
+                new RemoteHoverProvider(kernelControllerManager)
+            )
+        );
+        context.subscriptions.push(
+            vscode.languages.registerSignatureHelpProvider(
+                { scheme: 'vscode-notebook-cell' },
+                new RemoteSignatureHelpProvider(kernelControllerManager),
+                '(', ','
+            )
+        );
+
+        // 通过内核调试协议调试 notebook Cell
+        context.subscriptions.push(
+            vscode.debug.registerDebugAdapterDescriptorFactory(KERNEL_DEBUG_TYPE, new KernelDebugAdapterFactory(kernelControllerManager))
+        );
+
+        // 脚本中 `# %%` 标记的 Cell
+        const scriptCodeLensProvider = new ScriptCodeLensProvider(kernelControllerManager);
+        context.subscriptions.push(scriptCodeLensProvider);
+        context.subscriptions.push(
+            vscode.languages.registerCodeLensProvider(
+                SCRIPT_LANGUAGES.map(language => ({ language })),
+                scriptCodeLensProvider
+            )
+        );
+
         // 注册 Metrics Manager
         context.subscriptions.push(metricsManager);
 
@@ -303,6 +357,43 @@ function registerCommands(context: vscode.ExtensionContext) {
     context.subscriptions.push(
         vscode.commands.registerCommand('jupyterhub.interruptKernel', (item) => kernelProvider.interruptKernel(item))
     );
+    context.subscriptions.push(
+        vscode.commands.registerCommand('jupyterhub.restartNotebookKernel', (arg) => kernelControllerManager.restartKernel(arg))
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand('jupyterhub.restartNotebookKernelAndRunAll', (arg) => kernelControllerManager.restartKernel(arg, true))
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand('jupyterhub.showKernelActions', () => kernelStatusManager.showActions())
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand('jupyterhub.debugCell', (arg) => kernelControllerManager.debugCell(arg))
+    );
+    context.subscriptions.push(MessageTracer.initialize());
+    context.subscriptions.push(
+        vscode.commands.registerCommand('jupyterhub.showMessageTrace', () => MessageTracer.show())
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand('jupyterhub.exportMessageTrace', () => MessageTracer.export())
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand('jupyterhub.clearMessageTrace', () => MessageTracer.clear())
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand('jupyterhub.runScriptCell', (uri, index) => scriptRunner.runCell(uri, index))
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand('jupyterhub.runScriptCellsBelow', (uri, index) => scriptRunner.runBelow(uri, index))
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand('jupyterhub.runSelection', () => scriptRunner.runSelection())
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand('jupyterhub.attachToKernel', (item) => {
+            const kernelId = item?.contextValue === 'session' ? item.data?.kernel?.id : item?.data?.id;
+            return kernelControllerManager.attachToKernel(kernelId, context.extension.id);
+        })
+    );
 
     // 注册 Metrics 点击命令
     context.subscriptions.push(
@@ -735,7 +826,7 @@ async function disconnectServer() {
     fileSystemProvider.setContentsApi(null as any);
 
     if (kernelControllerManager) {
-        kernelControllerManager.dispose();
+        kernelControllerManager.clearControllers();
     }
 
     // 设置连接上下文状态
@@ -0,0 +1,68 @@
+/**
+ * Notebook Cell 相关的工具函数
+ */
+
+import * as vscode from 'vscode';
+
+// 脚本运行面板的 notebook metadata 中记录来源脚本 URI 的键
+export const SCRIPT_SOURCE_METADATA = 'jupyterhubScriptSource';
+
+/**
+ * notebook 关联的文件：脚本运行面板返回来源脚本，其余返回 notebook 本身
+ */
+export function getSessionUri(notebook: vscode.NotebookDocument): vscode.Uri {
+    const source = notebook.metadata?.[SCRIPT_SOURCE_METADATA];
+    return typeof source === 'string' ? vscode.Uri.parse(source) : notebook.uri;
+}
+
+/**
+ * 合并 Jupyter 的 Cell metadata，返回新的 VS Code Cell metadata
+ * ipynb 序列化器在不同版本中把 Jupyter metadata 放在 metadata.custom.metadata 或 metadata.metadata 下
+ */
+export function withJupyterCellMetadata(metadata: { [key: string]: any }, patch: Record<string, any>): { [key: string]: any } {
+    if (metadata.custom && typeof metadata.custom === 'object') {
+        const custom = metadata.custom;
+        return { ...metadata, custom: { ...custom, metadata: { ...(custom.metadata ?? {}), ...patch } } };
+    }
+    return { ...metadata, metadata: { ...(metadata.metadata ?? {}), ...patch } };
+}
+
+/**
+ * 查找 Cell 文档所属的 notebook
+ */
+export function findNotebookForCell(document: vscode.TextDocument): vscode.NotebookDocument | undefined {
+    if (document.uri.scheme !== 'vscode-notebook-cell') {
+        return undefined;
+    }
+    return vscode.workspace.notebookDocuments.find(nb => nb.getCells().some(cell => cell.document === document));
+}
+
+/**
+ * JS 字符串下标（UTF-16）转换为 Jupyter 协议使用的 Unicode 码点下标
+ */
+export function toCodePointOffset(text: string, offset: number): number {
+    return Array.from(text.slice(0, offset)).length;
+}
+
+/**
+ * Jupyter 协议的 Unicode 码点下标转换为 JS 字符串下标（UTF-16）
+ */
+export function fromCodePointOffset(text: string, cpOffset: number): number {
+    let offset = 0;
+    let count = 0;
+    for (const ch of text) {
+        if (count >= cpOffset) {
+            break;
+        }
+        offset += ch.length;
+        count++;
+    }
+    return offset;
+}
+
+/**
+ * 去除内核输出中的 ANSI 颜色控制序列
+ */
+export function stripAnsi(text: string): string {
+    return text.replace(/\x1b\[[0-9;]*[A-Za-z]/g, '');
+}
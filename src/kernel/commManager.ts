@@ -0,0 +1,108 @@
+/**
+ * Jupyter Comm 管理
+ * 跟踪内核打开的 comm，并分发 comm_open / comm_msg / comm_close 消息
+ */
+
+import * as vscode from 'vscode';
+import { Logger } from '../utils/logger';
+import { isMessageType, Message, MessageContents, MessageOf } from './messages';
+
+type CommMessageType = 'comm_open' | 'comm_msg' | 'comm_close';
+
+/**
+ * Comm 事件
+ */
+export interface CommEvent {
+    type: 'open' | 'msg' | 'close';
+    commId: string;
+    targetName?: string;
+    data: any;
+    buffers?: Message['buffers'];
+    msg: MessageOf<CommMessageType>;
+}
+
+/**
+ * 发送 shell 消息的回调，返回消息 id
+ */
+export type CommSender = <T extends CommMessageType>(msgType: T, content: MessageContents[T], buffers?: Message['buffers']) => string | undefined;
+
+export class CommManager {
+    // comm_id -> target_name
+    private comms = new Map<string, string>();
+
+    private _onDidReceiveMessage = new vscode.EventEmitter<CommEvent>();
+    readonly onDidReceiveMessage = this._onDidReceiveMessage.event;
+
+    constructor(private readonly send: CommSender) { }
+
+    /**
+     * 处理来自内核的 comm_* 消息；非 comm 消息返回 false
+     */
+    handleMessage(msg: Message): boolean {
+        if (isMessageType(msg, 'comm_open')) {
+            this.comms.set(msg.content.comm_id, msg.content.target_name);
+            this.fire('open', msg);
+        } else if (isMessageType(msg, 'comm_msg')) {
+            if (!this.comms.has(msg.content.comm_id)) {
+                Logger.warn(`[Comm] Message for unknown comm ${msg.content.comm_id}`);
+            }
+            this.fire('msg', msg);
+        } else if (isMessageType(msg, 'comm_close')) {
+            this.fire('close', msg);
+            this.comms.delete(msg.content.comm_id);
+        } else {
+            return false;
+        }
+        return true;
+    }
+
+    getTargetName(commId: string): string | undefined {
+        return this.comms.get(commId);
+    }
+
+    /**
+     * 从前端打开 comm
+     */
+    open(commId: string, targetName: string, data: any = {}): void {
+        this.comms.set(commId, targetName);
+        this.send('comm_open', { comm_id: commId, target_name: targetName, data });
+    }
+
+    /**
+     * 向内核发送 comm_msg，返回消息 id（内核处理该消息产生的输出以此为 parent）
+     * buffers 为随消息发送的二进制数据（如 ipywidgets 的 buffer_paths 对应的数组）
+     */
+    sendMessage(commId: string, data: any, buffers?: Message['buffers']): string | undefined {
+        return this.send('comm_msg', { comm_id: commId, data }, buffers);
+    }
+
+    close(commId: string, data: any = {}): void {
+        if (this.comms.delete(commId)) {
+            this.send('comm_close', { comm_id: commId, data });
+        }
+    }
+
+    /**
+     * 内核重启或连接释放时，所有 comm 都已失效
+     */
+    reset() {
+        this.comms.clear();
+    }
+
+    dispose() {
+        this.comms.clear();
+        this._onDidReceiveMessage.dispose();
+    }
+
+    private fire(type: CommEvent['type'], msg: MessageOf<CommMessageType>) {
+        const content = msg.content;
+        this._onDidReceiveMessage.fire({
+            type,
+            commId: content.comm_id,
+            targetName: ('target_name' in content ? content.target_name : undefined) ?? this.comms.get(content.comm_id),
+            data: content.data ?? {},
+            buffers: msg.buffers,
+            msg
+        });
+    }
+}
@@ -0,0 +1,94 @@
+/**
+ * 远程内核代码补全
+ * 通过 complete_request 向内核请求补全结果
+ */
+
+import * as vscode from 'vscode';
+import { KernelControllerManager } from '../providers/kernelControllerManager';
+import { findNotebookForCell, fromCodePointOffset, toCodePointOffset } from './cellUtils';
+import { CompleteReplyContent } from './messages';
+
+/**
+ * _jupyter_types_experimental 中的类型到 CompletionItemKind 的映射
+ */
+const COMPLETION_KINDS: Record<string, vscode.CompletionItemKind> = {
+    'function': vscode.CompletionItemKind.Function,
+    'class': vscode.CompletionItemKind.Class,
+    'module': vscode.CompletionItemKind.Module,
+    'keyword': vscode.CompletionItemKind.Keyword,
+    'instance': vscode.CompletionItemKind.Variable,
+    'statement': vscode.CompletionItemKind.Variable,
+    'param': vscode.CompletionItemKind.Variable,
+    'property': vscode.CompletionItemKind.Property,
+    'path': vscode.CompletionItemKind.File,
+    'magic': vscode.CompletionItemKind.Keyword
+};
+
+interface ExperimentalCompletion {
+    start: number;
+    end: number;
+    text: string;
+    type?: string;
+    signature?: string;
+}
+
+export class RemoteCompletionProvider implements vscode.CompletionItemProvider {
+    constructor(private readonly controllerManager: KernelControllerManager) { }
+
+    async provideCompletionItems(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        token: vscode.CancellationToken
+    ): Promise<vscode.CompletionItem[] | undefined> {
+        const notebook = findNotebookForCell(document);
+        const session = notebook && this.controllerManager.getSession(notebook);
+        if (!session || token.isCancellationRequested) {
+            return undefined;
+        }
+
+        const code = document.getText();
+        const offset = document.offsetAt(position);
+
+        // 补全被取消（继续输入或关闭建议列表）时不再等待内核回复
+        const reply = await new Promise<CompleteReplyContent | null>(resolve => {
+            const cancellation = token.onCancellationRequested(() => resolve(null));
+            session.requestComplete(code, toCodePointOffset(code, offset)).then(result => {
+                cancellation.dispose();
+                resolve(result);
+            });
+        });
+        if (!reply || reply.status !== 'ok' || token.isCancellationRequested) {
+            return undefined;
+        }
+
+        const range = new vscode.Range(
+            document.positionAt(fromCodePointOffset(code, reply.cursor_start)),
+            document.positionAt(fromCodePointOffset(code, reply.cursor_end))
+        );
+
+        const types = new Map<string, ExperimentalCompletion>();
+        for (const item of (reply.metadata?._jupyter_types_experimental ?? []) as ExperimentalCompletion[]) {
+            types.set(item.text, item);
+        }
+
+        return reply.matches.map((match, index) => {
+            const info = types.get(match);
+            const kind = info?.type ? COMPLETION_KINDS[info.type] : undefined;
+            const item = new vscode.CompletionItem(match, kind ?? vscode.CompletionItemKind.Text);
+            if (info && (info.start !== reply.cursor_start || info.end !== reply.cursor_end)) {
+                item.range = new vscode.Range(
+                    document.positionAt(fromCodePointOffset(code, info.start)),
+                    document.positionAt(fromCodePointOffset(code, info.end))
+                );
+            } else {
+                item.range = range;
+            }
+            if (info?.signature) {
+                item.detail = info.signature;
+            }
+            // 保持内核返回的排序
+            item.sortText = index.toString().padStart(6, '0');
+            return item;
+        });
+    }
+}
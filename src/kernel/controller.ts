@@ -1,34 +1,411 @@
 
 import * as vscode from 'vscode';
-import { KernelsApi, KernelSpec } from '../api/kernels';
-import { RemoteKernelSession } from './kernelSession';
+import * as crypto from 'crypto';
+import { KernelInfo, KernelsApi, KernelSpec } from '../api/kernels';
+import { ConfigManager } from '../utils/config';
+import { Logger } from '../utils/logger';
+import { getSessionUri, withJupyterCellMetadata } from './cellUtils';
+import { KERNEL_DEBUG_TYPE, KernelDebugConfiguration } from './debugAdapter';
+import { KernelConnectionState, KernelDeathEvent, KernelExecutionState, RemoteKernelSession } from './kernelSession';
+import { DisplayDataContent, ExecuteOutputMessage, isMessageType } from './messages';
+import { createDisplayOutput } from './outputs';
+import { buildStartupCode } from './startupCode';
+import { StreamOutputWriter } from './streamOutput';
+import { WidgetBridge } from './widgetBridge';
+
+/**
+ * 带 display_id 的输出所在位置
+ */
+interface DisplayRef {
+    cell: vscode.NotebookCell;
+    output: vscode.NotebookCellOutput;
+}
+
+/**
+ * 单个 Cell 的一次执行
+ */
+interface CellRun {
+    cell: vscode.NotebookCell;
+    execution: vscode.NotebookCellExecution;
+    stream: StreamOutputWriter;
+    // 收到 clear_output(wait=True) 后待清空
+    pendingClear: boolean;
+}
+
+// 空闲关闭策略下检查内核活动的间隔
+const IDLE_CHECK_INTERVAL_MS = 60 * 1000;
+
+/**
+ * notebook 的内核状态（状态栏展示用）
+ */
+export interface NotebookKernelStatus {
+    connection: KernelConnectionState | 'notStarted' | 'dead';
+    execution: KernelExecutionState;
+}
 
 export class RemoteKernelController {
     private controller: vscode.NotebookController;
     private executions = new Map<string, RemoteKernelSession>();
+    // notebook uri -> display_id -> 输出位置，跨执行追踪以支持 update_display_data
+    private displays = new Map<string, Map<string, DisplayRef[]>>();
+    // 正在执行的 Cell（document uri -> execution）
+    private activeExecutions = new Map<string, vscode.NotebookCellExecution>();
+    // 排队等待执行的 Cell（notebook uri -> execution）；中断时一并结束
+    // 设置了 interruptHandler 后 VS Code 不再取消 execution.token，停止按钮只会调用 interrupt
+    private queuedExecutions = new Map<string, Set<vscode.NotebookCellExecution>>();
+    // 正在建立连接的 notebook，避免并发执行时重复创建会话
+    private startingSessions = new Map<string, Promise<RemoteKernelSession>>();
+    // 重连失败、连接已失效的 notebook
+    private lostSessions = new Set<string>();
+    // 选中本控制器的 notebook
+    private selectedNotebooks = new Set<string>();
+    // 已关闭、等待空闲后关闭内核的 notebook（uri -> 定时器）
+    private idleShutdownTimers = new Map<string, NodeJS.Timeout>();
+    // 正在手动重启内核的 notebook，期间忽略内核的 restarting 状态
+    private manualRestarts = new Set<string>();
+    // 尚未写入 Cell metadata 的执行时间（notebook uri -> Cell -> timing），保存 notebook 时一次写入
+    private pendingTimings = new Map<string, Map<vscode.NotebookCell, Record<string, string>>>();
+    private disposables: vscode.Disposable[] = [];
+
+    private _onDidChangeStatus = new vscode.EventEmitter<vscode.Uri>();
+    readonly onDidChangeStatus = this._onDidChangeStatus.event;
 
     constructor(
         private readonly kernelSpec: KernelSpec,
         private readonly kernelsApi: KernelsApi,
         private readonly serverUrl: string,
-        private readonly token: string
+        private readonly token: string,
+        private readonly widgetBridge: WidgetBridge,
+        // 指定时直接连接这个已在运行的内核，而不是按 notebook 路径创建会话
+        private readonly attachedKernel?: KernelInfo
     ) {
         this.controller = vscode.notebooks.createNotebookController(
-            `jupyterhub-remote-${kernelSpec.name}`,
+            attachedKernel ? `jupyterhub-remote-kernel-${attachedKernel.id}` : `jupyterhub-remote-${kernelSpec.name}`,
             'jupyter-notebook',
-            `Remote: ${kernelSpec.spec.display_name}`,
+            attachedKernel
+                ? `Remote: ${kernelSpec.spec.display_name} (运行中 ${attachedKernel.id.slice(0, 8)})`
+                : `Remote: ${kernelSpec.spec.display_name}`,
             // handler
             this.executeHandler.bind(this)
         );
+        this.controller.interruptHandler = this.interrupt.bind(this);
         this.controller.supportedLanguages = [kernelSpec.spec.language.toLowerCase()];
-        this.controller.description = 'JupyterHub Remote Kernel';
-        this.controller.detail = `Language: ${kernelSpec.spec.language}`;
+        if (attachedKernel) {
+            this.controller.description = 'JupyterHub Running Kernel';
+            this.controller.detail = `Kernel ID: ${attachedKernel.id}`;
+        } else {
+            this.controller.description = 'JupyterHub Remote Kernel';
+            this.controller.detail = `Language: ${kernelSpec.spec.language}`;
+        }
+
+        this.disposables.push(this.controller.onDidChangeSelectedNotebooks(({ notebook, selected }) => {
+            const key = notebook.uri.toString();
+            if (selected) {
+                this.selectedNotebooks.add(key);
+            } else if (notebook.isClosed) {
+                // 关闭 notebook 时也可能先收到取消选中
+                this.handleNotebookClosed(notebook);
+            } else {
+                // 切换到其他内核：释放本控制器的连接（服务器会话由新控制器复用并切换内核）
+                this.selectedNotebooks.delete(key);
+                this.disposeSession(notebook.uri);
+            }
+            this._onDidChangeStatus.fire(notebook.uri);
+        }));
+        this.disposables.push(vscode.workspace.onDidCloseNotebookDocument(nb => this.handleNotebookClosed(nb)));
+        this.disposables.push(vscode.workspace.onDidOpenNotebookDocument(nb => this.cancelIdleShutdown(nb.uri)));
+        this.disposables.push(vscode.workspace.onWillSaveNotebookDocument(e => {
+            const edit = this.takeTimingEdit(e.notebook);
+            if (edit) {
+                e.waitUntil(Promise.resolve(edit));
+            }
+        }));
+    }
+
+    get displayName(): string {
+        return this.kernelSpec.spec.display_name;
+    }
+
+    get id(): string {
+        return this.controller.id;
+    }
+
+    get kernelName(): string {
+        return this.kernelSpec.name;
+    }
+
+    get language(): string {
+        return this.kernelSpec.spec.language.toLowerCase();
+    }
+
+    /**
+     * 设置本控制器对 notebook 的亲和度（Preferred 时自动选中）
+     */
+    setAffinity(notebook: vscode.NotebookDocument, affinity: vscode.NotebookControllerAffinity) {
+        this.controller.updateNotebookAffinity(notebook, affinity);
+    }
+
+    /**
+     * 该 notebook 是否选中了本控制器
+     */
+    isSelected(notebook: vscode.NotebookDocument): boolean {
+        return this.selectedNotebooks.has(notebook.uri.toString());
+    }
+
+    /**
+     * 获取 notebook 的连接状态与执行状态
+     */
+    getStatus(notebook: vscode.NotebookDocument): NotebookKernelStatus {
+        const key = notebook.uri.toString();
+        const session = this.executions.get(key);
+        if (session) {
+            return {
+                connection: session.connectionState === 'disconnected' || session.isDead ? 'dead' : session.connectionState,
+                execution: session.executionState
+            };
+        }
+        if (this.startingSessions.has(key)) {
+            return { connection: 'connecting', execution: 'starting' };
+        }
+        return { connection: this.lostSessions.has(key) ? 'dead' : 'notStarted', execution: 'unknown' };
+    }
+
+    /**
+     * 该 notebook 是否已通过本控制器连接到远程内核
+     */
+    hasNotebook(notebook: vscode.NotebookDocument): boolean {
+        return this.executions.has(notebook.uri.toString());
+    }
+
+    /**
+     * 本控制器已连接的内核 id
+     */
+    get connectedKernelIds(): string[] {
+        return Array.from(this.executions.values(), session => session.kernelId);
+    }
+
+    /**
+     * 获取 notebook 已建立的内核连接
+     */
+    getSession(notebook: vscode.NotebookDocument): RemoteKernelSession | undefined {
+        return this.executions.get(notebook.uri.toString());
+    }
+
+    /**
+     * 中断正在执行的 Cell，并结束所有排队中的 Cell（标记为未运行）
+     */
+    async interrupt(notebook: vscode.NotebookDocument): Promise<void> {
+        const key = notebook.uri.toString();
+        const queued = this.queuedExecutions.get(key);
+        if (queued) {
+            this.queuedExecutions.delete(key);
+            queued.forEach(execution => execution.end(undefined));
+        }
+
+        const session = this.executions.get(key);
+        if (!session) {
+            return;
+        }
+        try {
+            if (this.kernelSpec.spec.interrupt_mode === 'message') {
+                await session.interrupt();
+            } else {
+                await this.kernelsApi.interruptKernel(session.kernelId);
+            }
+        } catch (err: any) {
+            vscode.window.showErrorMessage(`中断内核失败: ${err.message}`);
+        }
+    }
+
+    /**
+     * 重启 notebook 对应的内核，可选重启后执行全部 Cell
+     */
+    async restartKernel(notebook: vscode.NotebookDocument, runAll = false): Promise<void> {
+        const key = notebook.uri.toString();
+        const session = this.executions.get(key);
+        if (!session || !await this.restartKernelById(notebook, session.kernelId)) {
+            return;
+        }
+
+        // 丢弃旧连接，下次执行时重新绑定会话（内核 id 不变）
+        this.disposeSession(notebook.uri);
+
+        if (runAll) {
+            const cells = notebook.getCells().filter(cell => cell.kind === vscode.NotebookCellKind.Code);
+            await this.executeHandler(cells, notebook, this.controller);
+        } else {
+            vscode.window.setStatusBarMessage('内核已重启', 3000);
+        }
+    }
+
+    /**
+     * 通过 REST API 重启内核，失败时提示并返回 false
+     */
+    private async restartKernelById(notebook: vscode.NotebookDocument, kernelId: string): Promise<boolean> {
+        const key = notebook.uri.toString();
+        this.manualRestarts.add(key);
+        try {
+            await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: '正在重启内核...'
+            }, () => this.kernelsApi.restartKernel(kernelId));
+            return true;
+        } catch (err: any) {
+            vscode.window.showErrorMessage(`重启内核失败: ${err.message}`);
+            return false;
+        } finally {
+            this.manualRestarts.delete(key);
+        }
+    }
+
+    /**
+     * 释放 notebook 的内核连接（不会关闭服务器上的内核）
+     */
+    private disposeSession(uri: vscode.Uri) {
+        const key = uri.toString();
+        const session = this.executions.get(key);
+        if (!session) {
+            return;
+        }
+        this.executions.delete(key);
+        this.widgetBridge.detach(uri);
+        session.dispose();
+        this._onDidChangeStatus.fire(uri);
+    }
+
+    /**
+     * 重新连接 notebook 的内核：已有连接时重建 WebSocket，否则重新建立会话
+     */
+    async reconnect(notebook: vscode.NotebookDocument): Promise<void> {
+        const session = this.executions.get(notebook.uri.toString());
+        try {
+            if (session) {
+                await session.reconnect();
+            } else {
+                await this.ensureSession(notebook);
+            }
+        } catch (err: any) {
+            vscode.window.showErrorMessage(`重新连接内核失败: ${err.message}`);
+        }
+    }
+
+    /**
+     * notebook 关闭：按 jupyterhub.kernel.closePolicy 释放连接并处理服务器上的内核
+     */
+    private handleNotebookClosed(notebook: vscode.NotebookDocument) {
+        const key = notebook.uri.toString();
+        this.selectedNotebooks.delete(key);
+        this.lostSessions.delete(key);
+        this.displays.delete(key);
+        this.pendingTimings.delete(key);
+
+        const session = this.executions.get(key);
+        if (!session) {
+            return;
+        }
+        const kernelId = session.kernelId;
+        this.disposeSession(notebook.uri);
+        // 附加的内核不归本扩展管理，关闭 notebook 时只断开连接
+        if (this.attachedKernel) {
+            return;
+        }
+
+        const policy = ConfigManager.getKernelClosePolicy();
+        if (policy === 'shutdownOnClose') {
+            this.shutdownSession(notebook, kernelId);
+        } else if (policy === 'shutdownWhenIdle') {
+            this.scheduleIdleShutdown(notebook, kernelId);
+        }
+    }
+
+    /**
+     * 删除 notebook 对应的服务器会话（同时关闭内核）；会话已绑定其他内核时不处理
+     */
+    private async shutdownSession(notebook: vscode.NotebookDocument, kernelId: string) {
+        const notebookPath = this.getSessionPath(notebook);
+        try {
+            const existing = await this.kernelsApi.findSessionByPath(notebookPath);
+            if (existing && existing.kernel?.id === kernelId) {
+                await this.kernelsApi.deleteSession(existing.id);
+                Logger.log(`[Kernel] Shut down kernel ${kernelId} for closed notebook ${notebookPath}`);
+            }
+        } catch (e) {
+            Logger.warn(`[Kernel] Failed to shut down kernel for ${notebookPath}`, e);
+        }
+    }
+
+    /**
+     * 定期检查内核活动，空闲超过配置时间且没有其他连接时关闭
+     */
+    private scheduleIdleShutdown(notebook: vscode.NotebookDocument, kernelId: string) {
+        const key = notebook.uri.toString();
+        this.cancelIdleShutdown(notebook.uri);
+
+        const timer = setTimeout(async () => {
+            this.idleShutdownTimers.delete(key);
+            try {
+                const kernel = await this.kernelsApi.getKernel(kernelId);
+                const idleMs = Date.now() - new Date(kernel.last_activity).getTime();
+                const limitMs = ConfigManager.getKernelIdleShutdownMinutes() * 60 * 1000;
+                if (kernel.execution_state === 'idle' && kernel.connections === 0 && idleMs >= limitMs) {
+                    await this.shutdownSession(notebook, kernelId);
+                    return;
+                }
+            } catch (e) {
+                // 内核已不存在
+                Logger.warn(`[Kernel] Stop idle check for kernel ${kernelId}`, e);
+                return;
+            }
+            this.scheduleIdleShutdown(notebook, kernelId);
+        }, IDLE_CHECK_INTERVAL_MS);
+        this.idleShutdownTimers.set(key, timer);
+    }
+
+    private cancelIdleShutdown(uri: vscode.Uri) {
+        const key = uri.toString();
+        const timer = this.idleShutdownTimers.get(key);
+        if (timer) {
+            clearTimeout(timer);
+            this.idleShutdownTimers.delete(key);
+        }
+    }
+
+    /**
+     * 调试单个 Cell：附加内核调试器后执行该 Cell
+     */
+    async debugCell(cell: vscode.NotebookCell): Promise<void> {
+        let session: RemoteKernelSession;
+        try {
+            session = await this.ensureSession(cell.notebook);
+        } catch (err: any) {
+            vscode.window.showErrorMessage(`Failed to start kernel: ${err.message}`);
+            return;
+        }
+        if (!session.kernelInfo?.debugger) {
+            vscode.window.showErrorMessage('当前内核不支持调试（需要 ipykernel 6 及以上并安装 debugpy）');
+            return;
+        }
+
+        const config: KernelDebugConfiguration = {
+            type: KERNEL_DEBUG_TYPE,
+            request: 'attach',
+            name: `Debug Cell ${cell.index + 1}`,
+            notebookUri: cell.notebook.uri.toString(),
+            cellIndex: cell.index
+        };
+        await vscode.debug.startDebugging(undefined, config, { suppressSaveBeforeStart: true });
     }
 
     dispose() {
         this.controller.dispose();
-        this.executions.forEach(session => session.dispose());
-        this.executions.clear();
+        for (const key of Array.from(this.executions.keys())) {
+            this.disposeSession(vscode.Uri.parse(key));
+        }
+        this.displays.clear();
+        this.idleShutdownTimers.forEach(timer => clearTimeout(timer));
+        this.idleShutdownTimers.clear();
+        this.disposables.forEach(d => d.dispose());
+        this._onDidChangeStatus.dispose();
     }
 
     private async executeHandler(
@@ -36,158 +413,513 @@ export class RemoteKernelController {
         _notebook: vscode.NotebookDocument,
         _controller: vscode.NotebookController
     ): Promise<void> {
-        // 1. 获取或创建 Kernel Session
-        let session = this.executions.get(_notebook.uri.toString());
-        if (!session) {
+        // 1. 为所有 Cell 创建执行，未轮到的 Cell 显示为排队状态
+        const key = _notebook.uri.toString();
+        const executions: vscode.NotebookCellExecution[] = [];
+        for (const cell of cells) {
             try {
-                // Determine the notebook path for the kernel context
-                let notebookPath: string | undefined;
-                if (_notebook.uri.scheme === 'jupyterhub') {
-                    // Jupyter expects relative path to the notebook file (e.g. folder/notebook.ipynb)
-                    notebookPath = _notebook.uri.path.replace(/^\//, '');
-                }
+                executions.push(this.controller.createNotebookCellExecution(cell));
+            } catch (e) {
+                // Cell 已在执行队列中
+                Logger.warn(`[Kernel] Cell ${cell.index} is already queued`, e);
+            }
+        }
+        let queued = this.queuedExecutions.get(key);
+        if (!queued) {
+            queued = new Set();
+            this.queuedExecutions.set(key, queued);
+        }
+        executions.forEach(execution => queued!.add(execution));
 
-                // 启动一个新的 Kernel
-                // Pass the full notebook path so Jupyter knows the context
-                const kernel = await this.kernelsApi.startKernel(this.kernelSpec.name, notebookPath);
-
-                // 构造 WebSocket URL (确保处理 https -> wss)
-                const baseUrl = this.serverUrl.replace(/^http/, 'ws');
-                const wsUrl = `${baseUrl}/api/kernels/${kernel.id}/channels`;
-
-                session = new RemoteKernelSession(wsUrl, this.token);
-                await session.connect();
-
-                // 强制修正 Python 环境的路径 (Double Check)
-                // 即使 Server 没正确处理 path 参数，这段代码也能保证 import 正常
-                if (notebookPath && this.kernelSpec.spec.language.toLowerCase() === 'python') {
-                    const lastSlash = notebookPath.lastIndexOf('/');
-                    if (lastSlash !== -1) {
-                        const cwd = notebookPath.substring(0, lastSlash);
-                        // Escape single quotes for safe injection into Python string
-                        const escapedCwd = cwd.replace(/'/g, "\\'");
-                        
-                        // 1. 切换工作目录
-                        // 2. 将当前目录加入 sys.path 首位，确保能 import 同级文件
-                        const safeCode = `
-import os
-import sys
-try:
-    # 尝试切换到笔记本所在目录
-    target_cwd = '${escapedCwd}'
-    if target_cwd != '':
-        if os.path.exists(target_cwd):
-            os.chdir(target_cwd)
-        else:
-            # 可能是相对于 home 的路径
-            home_rel = os.path.expanduser('~/' + target_cwd)
-            if os.path.exists(home_rel):
-                os.chdir(home_rel)
-    
-    # 确保当前目录在 path 中
-    cwd = os.getcwd()
-    if cwd not in sys.path:
-        sys.path.insert(0, cwd)
-except Exception:
-    pass
-`;
-                        // 静默执行初始化代码
-                        await session.executeCode(safeCode, () => {});
-                    }
+        // 结束本批中仍在排队的 Cell（已被 interrupt 结束的不再重复结束）
+        const endQueued = () => {
+            const current = this.queuedExecutions.get(key);
+            for (const execution of executions) {
+                if (current?.delete(execution)) {
+                    execution.end(undefined);
                 }
+            }
+            if (current && current.size === 0) {
+                this.queuedExecutions.delete(key);
+            }
+        };
 
-                this.executions.set(_notebook.uri.toString(), session);
+        // 2. 获取或创建 Kernel Session
+        let session: RemoteKernelSession;
+        try {
+            session = await this.ensureSession(_notebook);
+        } catch (err: any) {
+            vscode.window.showErrorMessage(`Failed to start kernel: ${err.message}`);
+            endQueued();
+            return;
+        }
 
-                // 监听 Notebook 关闭以清理
-                // (此处简化，未实现自动清理逻辑)
+        // 3. 依次执行 Cell（stop_on_error：出错、被中止后其余 Cell 不再执行，标记为未运行）
+        for (const execution of executions) {
+            const current = this.queuedExecutions.get(key);
+            if (!current?.delete(execution)) {
+                // 已被中断结束
+                continue;
+            }
+            const status = await this.executeCell(execution, session);
+            if (status !== 'ok') {
+                break;
+            }
+        }
+        endQueued();
+    }
 
-            } catch (err: any) {
-                vscode.window.showErrorMessage(`Failed to start kernel: ${err.message}`);
-                return;
+    /**
+     * 获取 notebook 的内核连接，不存在时创建
+     */
+    private async ensureSession(notebook: vscode.NotebookDocument): Promise<RemoteKernelSession> {
+        const key = notebook.uri.toString();
+        const existing = this.executions.get(key);
+        if (existing) {
+            return existing;
+        }
+
+        let starting = this.startingSessions.get(key);
+        if (!starting) {
+            starting = this.startSession(notebook);
+            this.startingSessions.set(key, starting);
+            this._onDidChangeStatus.fire(notebook.uri);
+        }
+        try {
+            const session = await starting;
+            this.executions.set(key, session);
+            this.lostSessions.delete(key);
+            this.cancelIdleShutdown(notebook.uri);
+            return session;
+        } finally {
+            if (this.startingSessions.get(key) === starting) {
+                this.startingSessions.delete(key);
+                this._onDidChangeStatus.fire(notebook.uri);
             }
         }
+    }
 
-        // 2. 执行 Cell
-        for (const cell of cells) {
-            await this.executeCell(cell, session);
+    /**
+     * 获取 notebook 对应的 Jupyter 会话路径
+     */
+    private getSessionPath(notebook: vscode.NotebookDocument): string {
+        const uri = getSessionUri(notebook);
+        if (uri.scheme === 'jupyterhub') {
+            // Jupyter expects relative path to the notebook file (e.g. folder/notebook.ipynb)
+            return uri.path.replace(/^\//, '');
+        }
+        // 本地 notebook 没有远程路径，用 URI 哈希生成稳定路径，保证重新打开时能复用同一会话
+        const hash = crypto.createHash('sha1').update(uri.toString()).digest('hex').slice(0, 12);
+        const name = uri.path.split('/').pop() || 'Untitled.ipynb';
+        return `.vscode-local/${hash}/${name}`;
+    }
+
+    /**
+     * 绑定到该 notebook 路径的 Jupyter 会话：已有会话（包括浏览器中创建的）则复用其内核，否则新建会话
+     */
+    private async startSession(notebook: vscode.NotebookDocument): Promise<RemoteKernelSession> {
+        const notebookPath = this.getSessionPath(notebook);
+        const kernelId = this.attachedKernel
+            ? await this.resolveAttachedKernel()
+            : await this.resolveSessionKernel(notebookPath);
+
+        // 构造 WebSocket URL (确保处理 https -> wss)
+        const baseUrl = this.serverUrl.replace(/^http/, 'ws');
+        const wsUrl = `${baseUrl}/api/kernels/${kernelId}/channels`;
+
+        const session = new RemoteKernelSession(wsUrl, this.token, kernelId, this.kernelsApi);
+        await session.connect();
+        this.watchConnectionState(session, notebook);
+        session.onDidDie(e => this.handleKernelDied(notebook, session, e));
+        session.onDidChangeExecutionState(() => this._onDidChangeStatus.fire(notebook.uri));
+        session.onDisplayUpdate(msg => this.updateDisplay(notebook, msg.content));
+        this.widgetBridge.attach(notebook, session);
+
+        await this.applyLanguageInfo(session, notebook);
+        // 附加到已有内核时不改变其状态（工作目录、环境变量等）
+        if (!this.attachedKernel) {
+            await this.runStartupCode(session, notebook, notebookPath);
+        }
+
+        return session;
+    }
+
+    /**
+     * 查找或创建 notebook 路径对应的服务器会话，返回其内核 id
+     */
+    private async resolveSessionKernel(notebookPath: string): Promise<string> {
+        let sessionModel = await this.kernelsApi.findSessionByPath(notebookPath);
+        if (sessionModel?.kernel && sessionModel.kernel.name !== this.kernelSpec.name) {
+            // 会话（可能来自 JupyterLab）正在使用其他内核：切换会关闭该内核并丢失其状态，需用户确认
+            const switchKernel = `切换为 ${this.kernelSpec.spec.display_name}`;
+            const keepKernel = `继续使用现有内核 (${sessionModel.kernel.name})`;
+            const choice = await vscode.window.showWarningMessage(
+                `服务器上 ${notebookPath} 的会话正在使用内核 ${sessionModel.kernel.name}，切换内核会关闭它，内核中的变量将丢失。`,
+                { modal: true },
+                switchKernel,
+                keepKernel
+            );
+            if (choice === keepKernel) {
+                Logger.log(`[Kernel] Keeping session ${sessionModel.id} kernel ${sessionModel.kernel.id}`);
+                return sessionModel.kernel.id;
+            }
+            if (choice !== switchKernel) {
+                throw new Error('已取消切换内核');
+            }
+            Logger.log(`[Kernel] Switching session ${sessionModel.id} kernel to ${this.kernelSpec.name}`);
+            sessionModel = await this.kernelsApi.changeSessionKernel(sessionModel.id, this.kernelSpec.name);
+        } else if (sessionModel) {
+            Logger.log(`[Kernel] Reattaching to session ${sessionModel.id} (kernel ${sessionModel.kernel.id})`);
+        } else {
+            sessionModel = await this.kernelsApi.createSession(notebookPath, this.kernelSpec.name);
+        }
+        return sessionModel.kernel.id;
+    }
+
+    /**
+     * 确认要附加的内核仍在运行
+     */
+    private async resolveAttachedKernel(): Promise<string> {
+        const kernelId = this.attachedKernel!.id;
+        try {
+            await this.kernelsApi.getKernel(kernelId);
+        } catch (err: any) {
+            throw new Error(`内核 ${kernelId} 已不存在: ${err.message}`);
+        }
+        Logger.log(`[Kernel] Attaching to running kernel ${kernelId}`);
+        return kernelId;
+    }
+
+    /**
+     * 按内核返回的 language_info 设置 Cell 语言（kernelspec 中的 language 可能与实际不符）
+     */
+    private async applyLanguageInfo(session: RemoteKernelSession, notebook: vscode.NotebookDocument) {
+        const info = session.languageInfo;
+        if (!info?.name) {
+            return;
+        }
+        const available = await vscode.languages.getLanguages();
+        const codemirrorMode = typeof info.codemirror_mode === 'string' ? info.codemirror_mode : info.codemirror_mode?.name;
+        const language = [info.name, codemirrorMode, info.pygments_lexer]
+            .map(name => name?.toLowerCase())
+            .find(name => name && available.includes(name));
+        if (!language) {
+            Logger.warn(`[Kernel] Unknown kernel language ${info.name}`);
+            return;
+        }
+
+        if (!this.controller.supportedLanguages?.includes(language)) {
+            this.controller.supportedLanguages = [...(this.controller.supportedLanguages ?? []), language];
+        }
+        for (const cell of notebook.getCells()) {
+            if (cell.kind === vscode.NotebookCellKind.Code && cell.document.languageId !== language) {
+                await vscode.languages.setTextDocumentLanguage(cell.document, language);
+            }
+        }
+    }
+
+    /**
+     * 静默执行启动代码（工作目录、环境变量及用户配置的初始化代码），不影响执行计数与历史
+     */
+    private async runStartupCode(session: RemoteKernelSession, notebook: vscode.NotebookDocument, notebookPath: string) {
+        const snippets = buildStartupCode({
+            kernelName: this.kernelSpec.name,
+            language: this.kernelSpec.spec.language,
+            serverUrl: this.serverUrl,
+            // 本地 notebook 在服务器上没有对应目录
+            notebookPath: getSessionUri(notebook).scheme === 'jupyterhub' ? notebookPath : undefined
+        });
+        for (const code of snippets) {
+            try {
+                const { reply } = await session.executeCode(code, () => { }, { silent: true, storeHistory: false });
+                if (reply.status === 'error') {
+                    Logger.warn(`[Kernel] Startup code failed: ${reply.ename}: ${reply.evalue}`);
+                    vscode.window.showWarningMessage(`内核启动代码执行失败: ${reply.ename}: ${reply.evalue}`);
+                }
+            } catch (e) {
+                Logger.warn('[Kernel] Failed to run startup code', e);
+            }
+        }
+    }
+
+    /**
+     * 将连接状态（重连中/已断开）反馈给用户
+     */
+    private watchConnectionState(session: RemoteKernelSession, notebook: vscode.NotebookDocument) {
+        let reconnectingMessage: vscode.Disposable | undefined;
+        session.onDidChangeState(state => {
+            this._onDidChangeStatus.fire(notebook.uri);
+            reconnectingMessage?.dispose();
+            reconnectingMessage = undefined;
+
+            const name = notebook.uri.path.split('/').pop();
+            if (state === 'reconnecting') {
+                reconnectingMessage = vscode.window.setStatusBarMessage(`$(sync~spin) 内核连接中断，正在重连 (${name})...`);
+            } else if (state === 'connected') {
+                vscode.window.setStatusBarMessage(`内核已重新连接 (${name})`, 3000);
+            } else if (state === 'disconnected' && this.executions.get(notebook.uri.toString()) === session) {
+                // 重连失败，移除 session，下次执行时重新建立连接
+                this.lostSessions.add(notebook.uri.toString());
+                this.disposeSession(notebook.uri);
+                vscode.window.showErrorMessage(`内核连接已断开 (${name})，下次执行时将重新连接`);
+            }
+        });
+    }
+
+    /**
+     * 内核进程退出：执行中的 Cell 已以 KernelDiedError 结束，这里通知用户并提供重启
+     */
+    private async handleKernelDied(notebook: vscode.NotebookDocument, session: RemoteKernelSession, event: KernelDeathEvent) {
+        const key = notebook.uri.toString();
+        if (this.manualRestarts.has(key) || this.executions.get(key) !== session) {
+            return;
+        }
+        this._onDidChangeStatus.fire(notebook.uri);
+        const name = notebook.uri.path.split('/').pop();
+
+        if (event.restarting) {
+            // 服务器已重启内核：丢弃旧连接，下次执行时重新连接并运行启动代码
+            this.disposeSession(notebook.uri);
+            vscode.window.showWarningMessage(`${event.reason} (${name})`);
+            return;
+        }
+
+        // 先移除 session：提示框关闭前再次执行也会重新建立连接（必要时启动新内核）
+        const kernelId = session.kernelId;
+        this.lostSessions.add(key);
+        this.disposeSession(notebook.uri);
+
+        const choice = await vscode.window.showErrorMessage(`${event.reason} (${name})`, '重启内核');
+        if (choice === '重启内核' && await this.restartKernelById(notebook, kernelId)) {
+            // 提示期间可能已重新连接，同样丢弃，下次执行时重新绑定并运行启动代码
+            this.disposeSession(notebook.uri);
+            this.lostSessions.delete(key);
+            this._onDidChangeStatus.fire(notebook.uri);
+            vscode.window.setStatusBarMessage('内核已重启', 3000);
         }
     }
 
-    private async executeCell(cell: vscode.NotebookCell, session: RemoteKernelSession): Promise<void> {
-        const execution = this.controller.createNotebookCellExecution(cell);
-        execution.executionOrder = ++this.executionOrder;
+    /**
+     * 执行单个 Cell，返回 execute_reply 的状态（ok / error / aborted）
+     */
+    private async executeCell(execution: vscode.NotebookCellExecution, session: RemoteKernelSession): Promise<string> {
+        const cell = execution.cell;
         execution.start(Date.now()); // Set start time
 
+        const run: CellRun = { cell, execution, stream: new StreamOutputWriter(execution), pendingClear: false };
+        const cellKey = cell.document.uri.toString();
+        this.activeExecutions.set(cellKey, execution);
         try {
             // Clear previous outputs to match JupyterWeb behavior
             execution.clearOutput();
+            this.forgetDisplays(cell);
+
+            const { reply, timing } = await session.executeCode(cell.document.getText(), (msg) => {
+                this.handleIOPubMessage(run, msg);
+            }, { allowStdin: true });
+            await run.stream.flush();
 
-            await session.executeCode(cell.document.getText(), (msg) => {
-                this.handleIOPubMessage(execution, msg);
-            });
-            execution.end(true, Date.now());
+            // 执行计数以内核的 In [n] 为准
+            if (typeof reply.execution_count === 'number') {
+                execution.executionOrder = reply.execution_count;
+            }
+            if (reply.status === 'aborted') {
+                // 内核因前面的请求出错而中止了本次执行，Cell 视为未运行
+                execution.end(undefined);
+                return 'aborted';
+            }
+            this.recordExecutionTiming(cell, timing);
+            execution.end(reply.status === 'ok', Date.now());
+            return reply.status;
         } catch (err) {
+            run.stream.reset();
             execution.replaceOutput([
                 new vscode.NotebookCellOutput([
                     vscode.NotebookCellOutputItem.error(err as Error)
                 ])
             ]);
             execution.end(false, Date.now());
+            return 'error';
+        } finally {
+            this.activeExecutions.delete(cellKey);
         }
     }
 
-    private executionOrder = 0;
+    /**
+     * 记录消息头中的执行时间，保存 notebook 时写入 Cell metadata（与 JupyterLab 的 metadata.execution 格式一致）
+     * 不在每次执行后修改 metadata，避免每次运行都产生一条撤销记录
+     */
+    private recordExecutionTiming(cell: vscode.NotebookCell, timing: Record<string, string>) {
+        if (Object.keys(timing).length === 0) {
+            return;
+        }
+        const key = cell.notebook.uri.toString();
+        let timings = this.pendingTimings.get(key);
+        if (!timings) {
+            timings = new Map();
+            this.pendingTimings.set(key, timings);
+        }
+        timings.set(cell, timing);
+    }
 
-    private handleIOPubMessage(execution: vscode.NotebookCellExecution, msg: any) {
-        const msgType = msg.header.msg_type;
-        const content = msg.content;
+    /**
+     * 取出待写入的执行时间，生成更新 Cell metadata 的编辑
+     */
+    private takeTimingEdit(notebook: vscode.NotebookDocument): vscode.WorkspaceEdit | undefined {
+        const timings = this.pendingTimings.get(notebook.uri.toString());
+        if (!timings) {
+            return undefined;
+        }
+        this.pendingTimings.delete(notebook.uri.toString());
 
-        if (msgType === 'clear_output') {
-            execution.clearOutput();
-        } else if (msgType === 'stream') {
-            const text = content.text;
-            if (content.name === 'stdout') {
-                execution.appendOutput(new vscode.NotebookCellOutput([
-                    vscode.NotebookCellOutputItem.text(text, 'text/plain')
-                ]));
-            } else if (content.name === 'stderr') {
-                // 显示为 stderr 样式通常还是 text/plain 但可能想区分
-                execution.appendOutput(new vscode.NotebookCellOutput([
-                    vscode.NotebookCellOutputItem.text(text, 'application/vnd.code.notebook.stderr')
-                ]));
-            }
-        } else if (msgType === 'execute_result' || msgType === 'display_data') {
-            const data = content.data;
-            const items: vscode.NotebookCellOutputItem[] = [];
-
-            // 遍历 MIME types
-            for (const key in data) {
-                let mimeType = key;
-                let value = data[key];
-                // 处理 JSON 数据
-                if (typeof value === 'object') {
-                    // some mimetypes expect string, some object?
-                    // VSCode generally handles objects for application/json
-                }
-                items.push(new vscode.NotebookCellOutputItem(this.encodeData(value), mimeType));
+        const edits: vscode.NotebookEdit[] = [];
+        for (const [cell, timing] of timings) {
+            // 已被删除的 Cell
+            if (cell.index < 0) {
+                continue;
+            }
+            edits.push(vscode.NotebookEdit.updateCellMetadata(cell.index, withJupyterCellMetadata(cell.metadata, { execution: timing })));
+        }
+        if (edits.length === 0) {
+            return undefined;
+        }
+        const edit = new vscode.WorkspaceEdit();
+        edit.set(notebook.uri, edits);
+        return edit;
+    }
+
+    private handleIOPubMessage(run: CellRun, msg: ExecuteOutputMessage) {
+        const { execution, cell } = run;
+
+        if (isMessageType(msg, 'execute_input')) {
+            execution.executionOrder = msg.content.execution_count;
+            return;
+        }
+
+        if (isMessageType(msg, 'clear_output')) {
+            if (msg.content.wait) {
+                // clear_output(wait=True)：等下一个输出到达时再清空，避免闪烁
+                run.pendingClear = true;
+            } else {
+                this.clearCellOutput(run);
+            }
+            return;
+        }
+
+        if (run.pendingClear) {
+            this.clearCellOutput(run);
+        }
+
+        if (isMessageType(msg, 'stream')) {
+            run.stream.write(msg.content.name, msg.content.text);
+            return;
+        }
+
+        // 其他输出打断 stream 合并，保持输出顺序
+        run.stream.break();
+
+        if (isMessageType(msg, 'execute_result', 'display_data')) {
+            const content = msg.content;
+            const output = createDisplayOutput(msg.header.msg_type, content);
+            const displayId: string | undefined = content.transient?.display_id;
+            if (displayId) {
+                // 与 JupyterLab 一致：同一 display_id 的新输出也会刷新已有的同名输出
+                this.updateDisplay(cell.notebook, content);
+                this.trackDisplay(cell, displayId, output);
             }
-            execution.appendOutput(new vscode.NotebookCellOutput(items));
-        } else if (msgType === 'error') {
+            execution.appendOutput(output);
+        } else if (isMessageType(msg, 'error')) {
             execution.appendOutput(new vscode.NotebookCellOutput([
                 vscode.NotebookCellOutputItem.error({
-                    name: content.ename,
-                    message: content.evalue,
-                    stack: content.traceback.join('\n')
+                    name: msg.content.ename,
+                    message: msg.content.evalue,
+                    stack: msg.content.traceback.join('\n')
                 })
             ]));
         }
     }
 
-    private encodeData(data: any): Uint8Array {
-        if (typeof data === 'string') {
-            return new TextEncoder().encode(data);
+    private clearCellOutput(run: CellRun) {
+        run.pendingClear = false;
+        run.stream.reset();
+        run.execution.clearOutput();
+        this.forgetDisplays(run.cell);
+    }
+
+    private trackDisplay(cell: vscode.NotebookCell, displayId: string, output: vscode.NotebookCellOutput) {
+        const key = cell.notebook.uri.toString();
+        let notebookDisplays = this.displays.get(key);
+        if (!notebookDisplays) {
+            notebookDisplays = new Map();
+            this.displays.set(key, notebookDisplays);
+        }
+        const refs = notebookDisplays.get(displayId) ?? [];
+        refs.push({ cell, output });
+        notebookDisplays.set(displayId, refs);
+    }
+
+    /**
+     * Cell 输出被清空后，移除指向它的 display 记录
+     */
+    private forgetDisplays(cell: vscode.NotebookCell) {
+        const notebookDisplays = this.displays.get(cell.notebook.uri.toString());
+        if (!notebookDisplays) {
+            return;
+        }
+        for (const [displayId, refs] of notebookDisplays) {
+            const remaining = refs.filter(ref => ref.cell !== cell);
+            if (remaining.length > 0) {
+                notebookDisplays.set(displayId, remaining);
+            } else {
+                notebookDisplays.delete(displayId);
+            }
+        }
+    }
+
+    /**
+     * 原地替换所有具有相同 display_id 的输出（可能位于其他 Cell）
+     */
+    private async updateDisplay(notebook: vscode.NotebookDocument, content: DisplayDataContent) {
+        const displayId: string | undefined = content.transient?.display_id;
+        const refs = displayId ? this.displays.get(notebook.uri.toString())?.get(displayId) : undefined;
+        if (!refs || refs.length === 0) {
+            return;
+        }
+
+        const items = createDisplayOutput('display_data', content).items;
+        const updatedCells = new Set<vscode.NotebookCell>();
+        for (const ref of [...refs]) {
+            const active = this.activeExecutions.get(ref.cell.document.uri.toString());
+            try {
+                if (active) {
+                    await active.replaceOutputItems(items, ref.output);
+                    continue;
+                }
+                if (updatedCells.has(ref.cell)) {
+                    continue;
+                }
+                updatedCells.add(ref.cell);
+
+                // 执行结束后 Cell 中的输出对象会被重新创建，按 metadata 中的 display_id 查找
+                const outputs = ref.cell.outputs.filter(o => o.metadata?.transient?.display_id === displayId);
+                if (outputs.length === 0) {
+                    // 输出已不存在（被清空或 Cell 被删除）
+                    refs.splice(refs.indexOf(ref), 1);
+                    continue;
+                }
+
+                // 未在执行的 Cell 只能通过临时 execution 修改输出，并保留原有的执行信息
+                const summary = ref.cell.executionSummary;
+                const execution = this.controller.createNotebookCellExecution(ref.cell);
+                execution.executionOrder = summary?.executionOrder;
+                execution.start(summary?.timing?.startTime);
+                for (const output of outputs) {
+                    await execution.replaceOutputItems(items, output);
+                }
+                execution.end(summary?.success, summary?.timing?.endTime);
+            } catch (e) {
+                Logger.warn(`[Kernel] Failed to update display ${displayId}`, e);
+            }
         }
-        // 如果是数组或其他对象，尝试 JSON stringify
-        return new TextEncoder().encode(JSON.stringify(data));
     }
 }
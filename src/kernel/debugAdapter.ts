@@ -0,0 +1,182 @@
+/**
+ * 内核调试适配器
+ * 通过 control 通道的 debug_request / debug_reply 和 iopub 的 debug_event 转发 DAP 消息（ipykernel + debugpy），
+ * 并用 dumpCell 把 Cell 源码映射为内核端的临时文件，使断点和调用栈能对应到 notebook Cell
+ */
+
+import * as vscode from 'vscode';
+import { KernelControllerManager } from '../providers/kernelControllerManager';
+import { Logger } from '../utils/logger';
+import { RemoteKernelSession } from './kernelSession';
+import { isObject } from './messages';
+
+export const KERNEL_DEBUG_TYPE = 'jupyterhub-remote-kernel';
+
+/**
+ * 调试配置
+ */
+export interface KernelDebugConfiguration extends vscode.DebugConfiguration {
+    notebookUri: string;
+    /** 调试单个 Cell：配置完成后执行该 Cell，执行结束时结束调试 */
+    cellIndex?: number;
+}
+
+class KernelDebugAdapter implements vscode.DebugAdapter {
+    private _onDidSendMessage = new vscode.EventEmitter<vscode.DebugProtocolMessage>();
+    readonly onDidSendMessage = this._onDidSendMessage.event;
+
+    // 内核临时文件路径 -> Cell
+    private sourceToCell = new Map<string, vscode.NotebookCell>();
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(
+        private readonly debugSession: vscode.DebugSession,
+        private readonly notebook: vscode.NotebookDocument,
+        private readonly kernel: RemoteKernelSession,
+        private readonly cellIndex?: number
+    ) {
+        this.disposables.push(kernel.onDebugEvent(event => this.send(event)));
+        this.disposables.push(kernel.onDidChangeState(state => {
+            if (state === 'disconnected') {
+                this.send({ type: 'event', event: 'terminated', seq: 0 });
+            }
+        }));
+    }
+
+    handleMessage(message: any): void {
+        if (message.type === 'request') {
+            this.handleRequest(message);
+        }
+    }
+
+    dispose() {
+        this.disposables.forEach(d => d.dispose());
+        this._onDidSendMessage.dispose();
+    }
+
+    private async handleRequest(request: any) {
+        try {
+            let forwarded = request;
+            if (request.command === 'setBreakpoints') {
+                forwarded = await this.mapBreakpointsRequest(request);
+            } else if (request.command === 'attach' || request.command === 'launch') {
+                // 内核自行决定 debugpy 的连接参数
+                forwarded = { ...request, command: 'attach', arguments: {} };
+            }
+
+            const response = await this.kernel.debugRequest(forwarded);
+            this.send({ ...response, request_seq: request.seq, command: request.command });
+
+            if (forwarded.command === 'attach') {
+                // 预先导出所有 Cell，单步进入未设断点的 Cell 时也能映射回 notebook
+                await this.dumpCells();
+            } else if (request.command === 'configurationDone' && this.cellIndex !== undefined) {
+                this.runCell(this.cellIndex);
+            }
+        } catch (err: any) {
+            Logger.warn(`[Debug] ${request.command} failed`, err);
+            this.send({
+                type: 'response',
+                seq: 0,
+                request_seq: request.seq,
+                command: request.command,
+                success: false,
+                message: err.message
+            });
+        }
+    }
+
+    /**
+     * setBreakpoints 的 source 由 Cell 替换为内核端的临时文件
+     */
+    private async mapBreakpointsRequest(request: any): Promise<any> {
+        const path: string | undefined = request.arguments?.source?.path;
+        const cell = this.notebook.getCells().find(c => c.document.uri.toString() === path);
+        if (!cell) {
+            return request;
+        }
+        const sourcePath = await this.dumpCell(cell);
+        return {
+            ...request,
+            arguments: { ...request.arguments, source: { ...request.arguments.source, path: sourcePath } }
+        };
+    }
+
+    private async dumpCell(cell: vscode.NotebookCell): Promise<string> {
+        const reply = await this.kernel.debugRequest({
+            type: 'request',
+            seq: 0,
+            command: 'dumpCell',
+            arguments: { code: cell.document.getText() }
+        });
+        const sourcePath: string = reply.body.sourcePath;
+        this.sourceToCell.set(sourcePath, cell);
+        return sourcePath;
+    }
+
+    private async dumpCells() {
+        for (const cell of this.notebook.getCells()) {
+            if (cell.kind !== vscode.NotebookCellKind.Code) {
+                continue;
+            }
+            try {
+                await this.dumpCell(cell);
+            } catch (e) {
+                Logger.warn(`[Debug] dumpCell failed for cell ${cell.index}`, e);
+            }
+        }
+    }
+
+    private async runCell(index: number) {
+        try {
+            await vscode.commands.executeCommand('notebook.cell.execute', {
+                ranges: [{ start: index, end: index + 1 }],
+                document: this.notebook.uri
+            });
+        } finally {
+            await vscode.debug.stopDebugging(this.debugSession);
+        }
+    }
+
+    /**
+     * 发给 VS Code 前把消息中的临时文件路径替换回 Cell
+     */
+    private send(message: vscode.DebugProtocolMessage) {
+        this._onDidSendMessage.fire(this.mapSources(message) as vscode.DebugProtocolMessage);
+    }
+
+    private mapSources(value: unknown): unknown {
+        if (Array.isArray(value)) {
+            return value.map(item => this.mapSources(item));
+        }
+        if (!isObject(value)) {
+            return value;
+        }
+        const result: Record<string, unknown> = {};
+        for (const [key, item] of Object.entries(value)) {
+            const source = key === 'source' && isObject(item) ? item : undefined;
+            const cell = typeof source?.path === 'string' ? this.sourceToCell.get(source.path) : undefined;
+            result[key] = source && cell
+                ? { ...source, path: cell.document.uri.toString(), name: `Cell ${cell.index + 1}` }
+                : this.mapSources(item);
+        }
+        return result;
+    }
+}
+
+/**
+ * 为调试会话创建内联调试适配器，连接 notebook 已建立的远程内核
+ */
+export class KernelDebugAdapterFactory implements vscode.DebugAdapterDescriptorFactory {
+    constructor(private readonly controllerManager: KernelControllerManager) { }
+
+    createDebugAdapterDescriptor(debugSession: vscode.DebugSession): vscode.DebugAdapterDescriptor {
+        const config = debugSession.configuration as KernelDebugConfiguration;
+        const notebook = vscode.workspace.notebookDocuments.find(nb => nb.uri.toString() === config.notebookUri);
+        const kernel = notebook && this.controllerManager.getSession(notebook);
+        if (!notebook || !kernel) {
+            throw new Error('notebook 尚未连接远程内核');
+        }
+        return new vscode.DebugAdapterInlineImplementation(new KernelDebugAdapter(debugSession, notebook, kernel, config.cellIndex));
+    }
+}
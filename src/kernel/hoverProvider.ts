@@ -0,0 +1,47 @@
+/**
+ * 远程内核悬停文档
+ * 通过 inspect_request 获取光标下标识符的文档
+ */
+
+import * as vscode from 'vscode';
+import { KernelControllerManager } from '../providers/kernelControllerManager';
+import { findNotebookForCell, stripAnsi, toCodePointOffset } from './cellUtils';
+
+export class RemoteHoverProvider implements vscode.HoverProvider {
+    constructor(private readonly controllerManager: KernelControllerManager) { }
+
+    async provideHover(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        token: vscode.CancellationToken
+    ): Promise<vscode.Hover | undefined> {
+        const notebook = findNotebookForCell(document);
+        const session = notebook && this.controllerManager.getSession(notebook);
+        if (!session) {
+            return undefined;
+        }
+
+        const range = document.getWordRangeAtPosition(position);
+        if (!range) {
+            return undefined;
+        }
+
+        // 光标放在标识符末尾，内核会解析完整的属性访问链（如 np.array）
+        const code = document.getText();
+        const reply = await session.requestInspect(code, toCodePointOffset(code, document.offsetAt(range.end)));
+        if (!reply || reply.status !== 'ok' || !reply.found || token.isCancellationRequested) {
+            return undefined;
+        }
+
+        const data = reply.data ?? {};
+        const contents = new vscode.MarkdownString();
+        if (typeof data['text/markdown'] === 'string') {
+            contents.appendMarkdown(data['text/markdown']);
+        } else if (typeof data['text/plain'] === 'string') {
+            contents.appendCodeblock(stripAnsi(data['text/plain']), 'text');
+        } else {
+            return undefined;
+        }
+        return new vscode.Hover(contents, range);
+    }
+}
@@ -1,164 +1,781 @@
-
 import * as vscode from 'vscode';
 import WebSocket from 'ws';
 import { v4 as uuidv4 } from 'uuid';
+import { KernelsApi } from '../api/kernels';
+import { ApiError } from '../api/types';
 import { Logger } from '../utils/logger';
+import { CommManager } from './commManager';
+import {
+    Channel,
+    CompleteReplyContent,
+    createMessage,
+    DebugEventContent,
+    DebugReplyContent,
+    DebugRequestContent,
+    ExecuteOutputMessage,
+    ExecuteReplyContent,
+    InspectReplyContent,
+    isMessageType,
+    KernelInfoReplyContent,
+    LanguageInfo,
+    Message,
+    MessageContents,
+    MessageOf,
+    MessageType,
+    ReplyType,
+    RequestType,
+    validateMessage
+} from './messages';
+import { MessageTracer } from './messageTracer';
+import { deserializeMessage, serializeMessage, V1_SUBPROTOCOL, WireProtocol } from './serialize';
+
+/**
+ * WebSocket 连接状态
+ */
+export type KernelConnectionState = 'connecting' | 'connected' | 'reconnecting' | 'disconnected';
+
+/**
+ * 内核执行状态（来自 iopub 的 status 消息）
+ */
+export type KernelExecutionState = 'unknown' | 'starting' | 'idle' | 'busy';
+
+/**
+ * 等待回复中的请求
+ */
+interface PendingRequest {
+    onMessage: (msg: Message) => void;
+    reject: (err: Error) => void;
+}
+
+/**
+ * execute_request 选项
+ */
+export interface ExecuteOptions {
+    /** 是否允许内核通过 stdin 请求用户输入（input()/getpass()） */
+    allowStdin?: boolean;
+    /** 静默执行：不广播输出、不增加执行计数 */
+    silent?: boolean;
+    /** 是否记录到内核历史，默认与 silent 相反 */
+    storeHistory?: boolean;
+}
 
-export interface KernelMessage {
-    header: {
-        msg_id: string;
-        username: string;
-        session: string;
-        msg_type: string;
-        version: string;
-        date: string;
-    };
-    parent_header: any;
-    metadata: any;
-    content: any;
-    channel?: string;
-    buffers?: any[];
+/**
+ * execute_request 的执行结果
+ */
+export interface ExecuteResult {
+    /** execute_reply 的 content（status / execution_count 等） */
+    reply: ExecuteReplyContent;
+    /** 各阶段消息头中的时间戳，键名与 JupyterLab 记录的 metadata.execution 一致 */
+    timing: Record<string, string>;
+}
+
+// 请求回复的默认超时
+const REQUEST_TIMEOUT_MS = 10000;
+
+// 支持的最低消息协议主版本
+const MIN_PROTOCOL_MAJOR = 5;
+
+// 重连退避参数
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+const RECONNECT_MAX_ATTEMPTS = 10;
+
+// 心跳：WebSocket 保持连接时内核进程也可能已被杀死（如内存不足），需定期确认
+const HEARTBEAT_INTERVAL_MS = 30000;
+const HEARTBEAT_TIMEOUT_MS = 10000;
+
+/**
+ * 内核进程已退出（或被服务器自动重启），等待中的请求以此失败
+ */
+export class KernelDiedError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'KernelDiedError';
+    }
+}
+
+/**
+ * 内核进程退出事件
+ */
+export interface KernelDeathEvent {
+    reason: string;
+    /** 服务器正在自动重启内核：内核状态已丢失，但连接仍可继续使用 */
+    restarting: boolean;
 }
 
 export class RemoteKernelSession {
     private ws: WebSocket | null = null;
-    private msgIdToHandler = new Map<string, (msg: any) => void>();
+    private msgIdToHandler = new Map<string, PendingRequest>();
+    // 重连时复用同一个 session id，Jupyter Server 会回放断线期间缓存的 iopub 消息
     private session: string = uuidv4();
+    // 当前连接协商的消息编码；服务器不支持 v1 子协议时之后不再请求
+    private protocol: WireProtocol = 'default';
+    private offerSubprotocol = true;
+
+    private state: KernelConnectionState = 'disconnected';
+    private disposed = false;
+    private reconnectAttempts = 0;
+    private reconnectTimer: NodeJS.Timeout | undefined;
+    private reconnectWaiters: { resolve: () => void; reject: (err: Error) => void }[] = [];
+
+    private _onDidChangeState = new vscode.EventEmitter<KernelConnectionState>();
+    readonly onDidChangeState = this._onDidChangeState.event;
+
+    // kernel_info_reply 的 content
+    private _kernelInfo: KernelInfoReplyContent | undefined;
+
+    private _executionState: KernelExecutionState = 'unknown';
+    private _onDidChangeExecutionState = new vscode.EventEmitter<KernelExecutionState>();
+    readonly onDidChangeExecutionState = this._onDidChangeExecutionState.event;
+
+    // update_display_data 可能来自任意 Cell 的执行（包括已结束的），单独分发给控制器
+    private _onDisplayUpdate = new vscode.EventEmitter<MessageOf<'update_display_data'>>();
+    readonly onDisplayUpdate = this._onDisplayUpdate.event;
+
+    // iopub 上的 debug_event（content 为 DAP 事件）
+    private _onDebugEvent = new vscode.EventEmitter<DebugEventContent>();
+    readonly onDebugEvent = this._onDebugEvent.event;
+
+    private _onDidDie = new vscode.EventEmitter<KernelDeathEvent>();
+    readonly onDidDie = this._onDidDie.event;
+
+    private heartbeatTimer: NodeJS.Timeout | undefined;
+    private heartbeatRunning = false;
+    // 内核进程已退出的原因；之后的请求直接失败
+    private deadReason: string | undefined;
+
+    // 消息钩子先于按 parent 分发执行，返回 true 表示消息已被消费（如 Output 组件捕获输出）
+    private messageHooks: ((msg: Message) => boolean)[] = [];
+
+    readonly comms = new CommManager((msgType, content, buffers) => this.sendShellMessage(msgType, content, buffers));
 
     constructor(
         private wsUrl: string,
-        private token: string
+        private token: string,
+        public readonly kernelId: string,
+        // 心跳无回复时用于查询内核状态
+        private readonly kernelsApi?: KernelsApi
     ) { }
 
+    get connectionState(): KernelConnectionState {
+        return this.state;
+    }
+
+    get executionState(): KernelExecutionState {
+        return this._executionState;
+    }
+
+    get kernelInfo(): KernelInfoReplyContent | undefined {
+        return this._kernelInfo;
+    }
+
+    get languageInfo(): LanguageInfo | undefined {
+        return this._kernelInfo?.language_info;
+    }
+
+    get protocolVersion(): string | undefined {
+        return this._kernelInfo?.protocol_version;
+    }
+
+    get isDead(): boolean {
+        return this.deadReason !== undefined;
+    }
+
     async connect() {
         if (this.ws && (this.ws.readyState === WebSocket.OPEN || this.ws.readyState === WebSocket.CONNECTING)) {
             return;
         }
 
+        this.setState('connecting');
+        try {
+            await this.openSocket();
+            await this.handshake();
+        } catch (e) {
+            this.dispose();
+            throw e;
+        }
+        this.setState('connected');
+        this.heartbeatTimer ??= setInterval(() => this.checkAlive(), HEARTBEAT_INTERVAL_MS);
+    }
+
+    /**
+     * 发送 kernel_info_request 确认内核存活并获取语言信息；
+     * 内核正忙（shell 请求排队）时回复会延迟，只要收到过 iopub 消息就视为存活
+     */
+    private async handshake() {
+        let alive = false;
+        const hook = this.addMessageHook(() => {
+            alive = true;
+            return false;
+        });
+        let info: KernelInfoReplyContent;
+        try {
+            info = await this.sendRequest('kernel_info_request', {}, 'shell');
+        } catch (e: any) {
+            if (alive || this._executionState === 'busy') {
+                Logger.warn('[Kernel] kernel_info_reply delayed, kernel seems busy', e);
+                return;
+            }
+            throw new Error(`内核无响应：${e.message}`);
+        } finally {
+            hook.dispose();
+        }
+        this.checkProtocolVersion(info.protocol_version);
+    }
+
+    private checkProtocolVersion(version: string | undefined) {
+        const major = parseInt(version ?? '', 10);
+        if (Number.isFinite(major) && major < MIN_PROTOCOL_MAJOR) {
+            throw new Error(`内核消息协议版本 ${version} 不受支持（需要 ${MIN_PROTOCOL_MAJOR}.0 及以上）`);
+        }
+    }
+
+    /**
+     * 建立 WebSocket，优先协商 v1 子协议；旧版 Jupyter Server 不返回子协议时改用默认协议重试
+     */
+    private async openSocket(): Promise<void> {
+        if (this.offerSubprotocol) {
+            try {
+                await this.openSocketWith([V1_SUBPROTOCOL]);
+                return;
+            } catch (e: any) {
+                if (!/subprotocol/i.test(e.message)) {
+                    throw e;
+                }
+                Logger.warn(`Kernel server does not support ${V1_SUBPROTOCOL}, using default protocol`);
+                this.offerSubprotocol = false;
+            }
+        }
+        await this.openSocketWith([]);
+    }
+
+    /**
+     * 建立 WebSocket，并在意外断开时触发自动重连
+     */
+    private openSocketWith(protocols: string[]): Promise<void> {
         const headers = { 'Authorization': `token ${this.token}` };
-        this.ws = new WebSocket(this.wsUrl, { headers });
+        const separator = this.wsUrl.includes('?') ? '&' : '?';
+        const ws = new WebSocket(`${this.wsUrl}${separator}session_id=${this.session}`, protocols, { headers });
+        this.ws = ws;
 
-        this.ws.on('open', () => {
-            Logger.log('Kernel WebSocket connected');
+        ws.on('open', () => {
+            this.protocol = ws.protocol === V1_SUBPROTOCOL ? 'v1' : 'default';
+            Logger.log(`Kernel WebSocket connected (${this.protocol} protocol)`);
         });
 
-        this.ws.on('message', (data) => {
+        ws.on('message', (data, isBinary) => {
             try {
-                const msg = JSON.parse(data.toString());
-                this.handleMessage(msg);
+                const raw = Array.isArray(data) ? Buffer.concat(data) : Buffer.isBuffer(data) ? data : Buffer.from(data);
+                const parsed = deserializeMessage(raw, isBinary, this.protocol);
+                MessageTracer.record('recv', this.kernelId, parsed, raw);
+                const msg = validateMessage(parsed);
+                if (msg) {
+                    this.handleMessage(msg);
+                }
             } catch (e) {
                 Logger.error('Error parsing kernel message', e);
             }
         });
 
-        this.ws.on('error', (e) => {
+        ws.on('error', (e) => {
             Logger.error('Kernel WebSocket error', e);
         });
 
         return new Promise<void>((resolve, reject) => {
-            this.ws!.once('open', () => resolve());
-            this.ws!.once('error', (err) => reject(err));
+            let opened = false;
+            let openError: Error | undefined;
+            ws.once('error', (e) => {
+                openError = e;
+            });
+            ws.once('open', () => {
+                opened = true;
+                resolve();
+            });
+            ws.once('close', (code: number) => {
+                if (!opened) {
+                    const reason = openError ? `: ${openError.message}` : '';
+                    reject(new Error(`Kernel WebSocket closed before open (code ${code})${reason}`));
+                    return;
+                }
+                this.handleClose(ws, code);
+            });
         });
     }
 
-    private handleMessage(msg: any) {
-        const parentId = msg.parent_header?.msg_id;
-        if (parentId && this.msgIdToHandler.has(parentId)) {
-            const handler = this.msgIdToHandler.get(parentId);
-            handler!(msg);
+    private handleClose(ws: WebSocket, code: number) {
+        // 已被替换的旧连接，或主动释放时不重连
+        if (this.disposed || ws !== this.ws) {
+            return;
+        }
+        Logger.warn(`Kernel WebSocket closed unexpectedly (code ${code}), reconnecting...`);
+        this.ws = null;
+        this.reconnectAttempts = 0;
+        this.setState('reconnecting');
+        this.scheduleReconnect();
+    }
+
+    private scheduleReconnect() {
+        if (this.reconnectAttempts >= RECONNECT_MAX_ATTEMPTS) {
+            this.failReconnect(new Error(`内核连接已断开，重试 ${RECONNECT_MAX_ATTEMPTS} 次后仍无法恢复`));
+            return;
         }
+
+        const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** this.reconnectAttempts, RECONNECT_MAX_DELAY_MS);
+        this.reconnectAttempts++;
+        Logger.log(`Kernel reconnect attempt ${this.reconnectAttempts} in ${delay}ms`);
+
+        this.reconnectTimer = setTimeout(async () => {
+            this.reconnectTimer = undefined;
+            if (this.disposed) {
+                return;
+            }
+            try {
+                await this.openSocket();
+                Logger.log('Kernel WebSocket reconnected');
+                this.reconnectAttempts = 0;
+                this.setState('connected');
+                this.reconnectWaiters.forEach(w => w.resolve());
+                this.reconnectWaiters = [];
+            } catch (e) {
+                Logger.warn('Kernel reconnect failed', e);
+                this.ws = null;
+                this.scheduleReconnect();
+            }
+        }, delay);
     }
 
-    async executeCode(code: string, onOutput: (output: any) => void): Promise<void> {
+    /**
+     * 手动重连：丢弃当前连接并立即重新建立（沿用同一个 session id）
+     */
+    async reconnect(): Promise<void> {
+        if (this.disposed) {
+            return;
+        }
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = undefined;
+        }
+        const old = this.ws;
+        this.ws = null;
+        old?.close();
+
+        this.setState('reconnecting');
+        try {
+            await this.openSocket();
+        } catch (e) {
+            // 立即重连失败，转入自动重连流程
+            Logger.warn('Kernel manual reconnect failed', e);
+            this.ws = null;
+            this.reconnectAttempts = 0;
+            this.scheduleReconnect();
+            return;
+        }
+        Logger.log('Kernel WebSocket reconnected manually');
+        this.reconnectAttempts = 0;
+        this.setState('connected');
+        this.reconnectWaiters.forEach(w => w.resolve());
+        this.reconnectWaiters = [];
+    }
+
+    /**
+     * 重连彻底失败：让所有等待中的请求失败，避免 Promise 永远挂起
+     */
+    private failReconnect(err: Error) {
+        this.setState('disconnected');
+        this.rejectPending(err);
+        this.reconnectWaiters.forEach(w => w.reject(err));
+        this.reconnectWaiters = [];
+    }
+
+    private rejectPending(err: Error) {
+        const pending = Array.from(this.msgIdToHandler.values());
+        this.msgIdToHandler.clear();
+        pending.forEach(p => p.reject(err));
+    }
+
+    private setState(state: KernelConnectionState) {
+        if (this.state === state) {
+            return;
+        }
+        this.state = state;
+        this._onDidChangeState.fire(state);
+    }
+
+    private setExecutionState(state: KernelExecutionState) {
+        if (this._executionState === state) {
+            return;
+        }
+        this._executionState = state;
+        this._onDidChangeExecutionState.fire(state);
+    }
+
+    /**
+     * 确保连接可用；重连过程中等待重连结果
+     */
+    private async ensureConnected(): Promise<void> {
+        if (this.deadReason) {
+            throw new KernelDiedError(this.deadReason);
+        }
+        if (this.state === 'reconnecting') {
+            await new Promise<void>((resolve, reject) => this.reconnectWaiters.push({ resolve, reject }));
+        }
         if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
             throw new Error('Kernel not connected');
         }
+    }
+
+    /**
+     * 心跳：通过 control 通道发送 kernel_info_request（内核执行代码时也能响应）；
+     * 无回复时通过 REST API 查询内核状态，区分“忙碌”与“已退出”
+     */
+    private async checkAlive() {
+        if (this.heartbeatRunning || this.deadReason || this.state !== 'connected') {
+            return;
+        }
+        this.heartbeatRunning = true;
+        try {
+            await this.sendRequest('kernel_info_request', {}, 'control', HEARTBEAT_TIMEOUT_MS);
+        } catch (e) {
+            if (!this.disposed && !this.deadReason) {
+                Logger.warn(`[Kernel] No heartbeat reply from kernel ${this.kernelId}, checking kernel status`, e);
+                await this.checkKernelStatus();
+            }
+        } finally {
+            this.heartbeatRunning = false;
+        }
+    }
+
+    private async checkKernelStatus() {
+        if (!this.kernelsApi) {
+            return;
+        }
+        try {
+            const kernel = await this.kernelsApi.getKernel(this.kernelId);
+            if (kernel.execution_state === 'dead') {
+                this.markDead('内核进程已退出（可能因内存不足被终止）');
+            }
+        } catch (e) {
+            if (e instanceof ApiError && e.status === 404) {
+                this.markDead('内核已不存在（可能已被服务器关闭或回收）');
+            } else if (!(e instanceof ApiError && e.status)) {
+                // 心跳无回复且服务器不可达：连接多半已半开（如 VPN 断开），
+                // 强制关闭 WebSocket，由 handleClose 进入退避重连，而不是等待系统 TCP 超时
+                Logger.warn(`[Kernel] Server unreachable, dropping kernel WebSocket ${this.kernelId}`, e);
+                this.ws?.terminate();
+            }
+        }
+    }
+
+    /**
+     * 服务器检测到内核进程退出并自动重启：执行中的代码和内核中的变量都已丢失
+     */
+    private handleKernelRestarting() {
+        const reason = '内核进程意外退出（可能因内存不足被终止），服务器已自动重启内核，之前的变量已丢失';
+        Logger.warn(`[Kernel] Kernel ${this.kernelId} is restarting`);
+        this.rejectPending(new KernelDiedError(reason));
+        this.comms.reset();
+        this.setExecutionState('starting');
+        this._onDidDie.fire({ reason, restarting: true });
+    }
+
+    /**
+     * 内核进程已退出且不会恢复：等待中的请求失败，之后的请求直接失败
+     */
+    private markDead(reason: string) {
+        if (this.disposed || this.deadReason) {
+            return;
+        }
+        Logger.warn(`[Kernel] Kernel ${this.kernelId} died: ${reason}`);
+        this.deadReason = reason;
+        this.stopHeartbeat();
+        this.rejectPending(new KernelDiedError(reason));
+        this._onDidDie.fire({ reason, restarting: false });
+    }
+
+    private stopHeartbeat() {
+        if (this.heartbeatTimer) {
+            clearInterval(this.heartbeatTimer);
+            this.heartbeatTimer = undefined;
+        }
+    }
+
+    private handleMessage(msg: Message) {
+        if (isMessageType(msg, 'status')) {
+            const state = msg.content.execution_state;
+            // restarting / dead 表示内核进程本身的状态，不是执行状态
+            if (state === 'restarting') {
+                this.handleKernelRestarting();
+            } else if (state === 'dead') {
+                this.markDead('内核进程已退出，服务器未能重启内核');
+            } else {
+                this.setExecutionState(state);
+            }
+        } else if (isMessageType(msg, 'kernel_info_reply')) {
+            // 握手超时后迟到的回复也记录下来
+            this._kernelInfo = msg.content;
+        }
+
+        if (this.comms.handleMessage(msg)) {
+            return;
+        }
+
+        for (const hook of this.messageHooks) {
+            if (hook(msg)) {
+                return;
+            }
+        }
+
+        if (isMessageType(msg, 'update_display_data')) {
+            this._onDisplayUpdate.fire(msg);
+            return;
+        }
+        if (isMessageType(msg, 'debug_event')) {
+            this._onDebugEvent.fire(msg.content);
+            return;
+        }
+
+        const parentId = msg.parent_header.msg_id;
+        if (parentId && this.msgIdToHandler.has(parentId)) {
+            const pending = this.msgIdToHandler.get(parentId);
+            pending!.onMessage(msg);
+        }
+    }
+
+    /**
+     * 发送消息（调用方需确认连接可用）
+     */
+    private send(msg: Message) {
+        const raw = serializeMessage(msg, this.protocol);
+        MessageTracer.record('send', this.kernelId, msg, raw);
+        this.ws!.send(raw);
+    }
+
+    /**
+     * 注册消息钩子
+     */
+    addMessageHook(hook: (msg: Message) => boolean): vscode.Disposable {
+        this.messageHooks.push(hook);
+        return new vscode.Disposable(() => {
+            this.messageHooks = this.messageHooks.filter(h => h !== hook);
+        });
+    }
 
-        const msgId = uuidv4();
-        const msg: KernelMessage = {
-            header: {
-                msg_id: msgId,
-                username: 'vscode',
-                session: this.session,
-                msg_type: 'execute_request',
-                version: '5.3',
-                date: new Date().toISOString()
-            },
-            parent_header: {},
-            metadata: {},
-            content: {
-                code: code,
-                silent: false,
-                store_history: true,
-                user_expressions: {},
-                allow_stdin: false,
-                stop_on_error: true
-            },
-            channel: 'shell'
-        };
-
-        this.ws.send(JSON.stringify(msg));
-
-        return new Promise((resolve) => {
-            const handler = (msg: any) => {
-                const msgType = msg.header.msg_type;
-
-                // 处理输出
-                if (msgType === 'stream' || msgType === 'execute_result' || msgType === 'display_data' || msgType === 'error') {
+    /**
+     * 发送无需等待回复的 shell 消息（如 comm_msg），返回消息 id；未连接时返回 undefined
+     */
+    private sendShellMessage<T extends MessageType>(
+        msgType: T,
+        content: MessageContents[T],
+        buffers?: Message['buffers']
+    ): string | undefined {
+        if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+            Logger.warn(`Kernel not connected, dropping ${msgType}`);
+            return undefined;
+        }
+        const msg = createMessage(msgType, content, { session: this.session, channel: 'shell' });
+        if (buffers && buffers.length > 0) {
+            msg.buffers = buffers;
+        }
+        this.send(msg);
+        return msg.header.msg_id;
+    }
+
+    async executeCode(code: string, onOutput: (output: ExecuteOutputMessage) => void, options: ExecuteOptions = {}): Promise<ExecuteResult> {
+        await this.ensureConnected();
+
+        const msg = createMessage('execute_request', {
+            code: code,
+            silent: options.silent ?? false,
+            store_history: options.storeHistory ?? !options.silent,
+            user_expressions: {},
+            allow_stdin: options.allowStdin ?? false,
+            stop_on_error: true
+        }, { session: this.session, channel: 'shell' });
+        const msgId = msg.header.msg_id;
+
+        return new Promise((resolve, reject) => {
+            const timing: Record<string, string> = {};
+            let reply: ExecuteReplyContent | undefined;
+            let idle = false;
+
+            // execute_reply（shell）与 idle 状态（iopub）到达顺序不固定，两者都收到才算完成；
+            // 被内核中止（aborted）的请求不一定会有 idle 状态
+            const finish = () => {
+                if (reply && (idle || reply.status === 'aborted')) {
+                    this.msgIdToHandler.delete(msgId);
+                    resolve({ reply, timing });
+                }
+            };
+
+            const onMessage = (msg: Message) => {
+                // 处理输出（execute_input 携带内核的执行计数）
+                if (isMessageType(msg, 'stream', 'execute_result', 'display_data', 'error', 'clear_output', 'execute_input')) {
                     onOutput(msg);
                 }
+                if (isMessageType(msg, 'execute_input')) {
+                    timing['iopub.execute_input'] = msg.header.date;
+                }
+
+                // 处理 stdin 输入请求
+                if (isMessageType(msg, 'input_request')) {
+                    this.handleInputRequest(msg);
+                }
+
+                if (isMessageType(msg, 'execute_reply')) {
+                    reply = msg.content;
+                    if (msg.metadata.started) {
+                        timing['shell.execute_reply.started'] = msg.metadata.started;
+                    }
+                    timing['shell.execute_reply'] = msg.header.date;
+                    finish();
+                }
 
                 // 处理状态变更
-                if (msgType === 'status' && msg.content.execution_state === 'idle') {
-                    // 完成
-                    this.msgIdToHandler.delete(msgId);
-                    resolve();
+                if (isMessageType(msg, 'status')) {
+                    const state = msg.content.execution_state;
+                    if (state === 'busy') {
+                        timing['iopub.status.busy'] = msg.header.date;
+                    } else if (state === 'idle') {
+                        timing['iopub.status.idle'] = msg.header.date;
+                        idle = true;
+                        finish();
+                    }
                 }
             };
-            this.msgIdToHandler.set(msgId, handler);
+            this.msgIdToHandler.set(msgId, { onMessage, reject });
+            this.send(msg);
         });
     }
 
-    async requestComplete(code: string, cursor_pos: number): Promise<any> {
+    /**
+     * 通过输入框响应内核的 input_request，并回复 input_reply
+     */
+    private async handleInputRequest(request: MessageOf<'input_request'>) {
+        const { prompt, password } = request.content;
+        const value = await vscode.window.showInputBox({
+            title: '内核请求输入',
+            prompt: prompt || undefined,
+            password: !!password,
+            ignoreFocusOut: true
+        });
+
         if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
-            return null;
+            Logger.warn('Kernel disconnected before input_reply could be sent');
+            return;
         }
 
-        const msgId = uuidv4();
-        const msg: KernelMessage = {
-            header: {
-                msg_id: msgId,
-                username: 'vscode',
-                session: this.session,
-                msg_type: 'complete_request',
-                version: '5.3',
-                date: new Date().toISOString()
-            },
-            parent_header: {},
-            metadata: {},
-            content: {
-                code,
-                cursor_pos
-            },
-            channel: 'shell'
-        };
-
-        this.ws.send(JSON.stringify(msg));
-
-        return new Promise((resolve) => {
-            const handler = (msg: any) => {
-                if (msg.header.msg_type === 'complete_reply') {
+        // 用户取消时回复空字符串，避免内核一直阻塞在 input()
+        const reply = createMessage('input_reply', { value: value ?? '' }, {
+            session: this.session,
+            channel: 'stdin',
+            parentHeader: request.header
+        });
+        this.send(reply);
+    }
+
+    /**
+     * 发送请求并等待对应的 *_reply，超时或断开时失败
+     */
+    private async sendRequest<T extends RequestType>(
+        msgType: T,
+        content: MessageContents[T],
+        channel: Channel,
+        timeoutMs = REQUEST_TIMEOUT_MS
+    ): Promise<MessageContents[ReplyType<T>]> {
+        await this.ensureConnected();
+
+        const msg = createMessage(msgType, content, { session: this.session, channel });
+        const msgId = msg.header.msg_id;
+        const replyType = msgType.replace(/_request$/, '_reply') as ReplyType<T>;
+
+        return new Promise((resolve, reject) => {
+            const timer = setTimeout(() => {
+                this.msgIdToHandler.delete(msgId);
+                reject(new Error(`${msgType} timed out after ${timeoutMs}ms`));
+            }, timeoutMs);
+            const onMessage = (reply: Message) => {
+                if (isMessageType(reply, replyType)) {
+                    clearTimeout(timer);
                     this.msgIdToHandler.delete(msgId);
-                    resolve(msg.content);
+                    resolve(reply.content);
                 }
             };
-            this.msgIdToHandler.set(msgId, handler);
+            this.msgIdToHandler.set(msgId, {
+                onMessage,
+                reject: (err) => {
+                    clearTimeout(timer);
+                    reject(err);
+                }
+            });
+            this.send(msg);
         });
     }
 
+    /**
+     * 通过 control 通道发送 DAP 请求（debug_request），返回 debug_reply 中的 DAP 响应
+     */
+    async debugRequest(request: DebugRequestContent): Promise<DebugReplyContent> {
+        return this.sendRequest('debug_request', request, 'control');
+    }
+
+    /**
+     * 通过 control 通道中断内核（用于 interrupt_mode 为 message 的内核）
+     */
+    async interrupt(): Promise<void> {
+        await this.sendRequest('interrupt_request', {}, 'control');
+    }
+
+    /**
+     * 请求代码补全，未连接或超时时返回 null
+     * 与 requestInspect 相同，内核忙碌时请求会排队，使用较短超时以免阻塞补全列表
+     */
+    async requestComplete(code: string, cursor_pos: number, timeoutMs = 1500): Promise<CompleteReplyContent | null> {
+        if (this.state !== 'connected') {
+            return null;
+        }
+        try {
+            return await this.sendRequest('complete_request', { code, cursor_pos }, 'shell', timeoutMs);
+        } catch (e) {
+            Logger.warn('complete_request failed', e);
+            return null;
+        }
+    }
+
+    /**
+     * 请求对象检查信息（docstring、签名等）
+     * 内核忙碌时 shell 请求会排队，因此使用较短超时，超时返回 null 而不是阻塞调用方
+     */
+    async requestInspect(code: string, cursor_pos: number, detail_level = 0, timeoutMs = 1500): Promise<InspectReplyContent | null> {
+        if (this.state !== 'connected') {
+            return null;
+        }
+        try {
+            return await this.sendRequest('inspect_request', { code, cursor_pos, detail_level }, 'shell', timeoutMs);
+        } catch (e) {
+            Logger.warn('inspect_request failed', e);
+            return null;
+        }
+    }
+
     dispose() {
+        this.disposed = true;
+        // 主动释放不再对外通知状态变更
+        this._onDidChangeState.dispose();
+        this._onDidChangeExecutionState.dispose();
+        this._onDisplayUpdate.dispose();
+        this._onDebugEvent.dispose();
+        this._onDidDie.dispose();
+        this.stopHeartbeat();
+        this.comms.dispose();
+        this.messageHooks = [];
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = undefined;
+        }
+        this.failReconnect(new Error('Kernel session disposed'));
         if (this.ws) {
             this.ws.close();
+            this.ws = null;
         }
     }
 }
@@ -0,0 +1,227 @@
+/**
+ * 内核消息跟踪
+ * 开启 jupyterhub.kernel.messageTrace.enabled 后，记录收发的每条内核消息到环形缓冲区，
+ * 可在输出面板中按 msg_id 浏览，或导出为 JSON 附在问题报告中
+ */
+
+import * as os from 'os';
+import * as vscode from 'vscode';
+import { ConfigManager } from '../utils/config';
+
+// 单条记录保留的 content 最大长度（JSON 字符数），超出部分截断
+const MAX_CONTENT_LENGTH = 4000;
+
+// 需要脱敏的消息：input_reply 可能包含密码
+const REDACTED_FIELDS: Record<string, string[]> = {
+    input_reply: ['value']
+};
+
+/**
+ * 一条消息记录
+ */
+export interface TraceEntry {
+    /** 记录时间（本地） */
+    time: string;
+    direction: 'send' | 'recv';
+    kernelId: string;
+    channel: string;
+    msgType: string;
+    msgId: string;
+    parentId?: string;
+    /** 消息头中的时间 */
+    date?: string;
+    /** 回复/输出相对其 parent 请求发出的耗时 */
+    latencyMs?: number;
+    /** 消息帧的字节数（含二进制 buffers） */
+    size: number;
+    content: any;
+}
+
+export class MessageTracer {
+    private static entries: TraceEntry[] = [];
+    // 环形缓冲区写入位置
+    private static next = 0;
+    private static capacity = 0;
+    // msg_id -> 发送时间，用于计算耗时
+    private static sentAt = new Map<string, number>();
+    private static outputChannel: vscode.OutputChannel | undefined;
+    // 缓存的设置（每条消息都会检查，避免反复读取配置）
+    private static isEnabled = false;
+    private static bufferSize = 1;
+
+    static get enabled(): boolean {
+        return this.isEnabled;
+    }
+
+    /**
+     * 读取设置并在设置变化时更新
+     */
+    static initialize(): vscode.Disposable {
+        this.loadSettings();
+        return vscode.workspace.onDidChangeConfiguration(e => {
+            if (e.affectsConfiguration('jupyterhub.kernel.messageTrace')) {
+                this.loadSettings();
+            }
+        });
+    }
+
+    private static loadSettings() {
+        this.isEnabled = ConfigManager.getMessageTraceEnabled();
+        this.bufferSize = Math.max(1, ConfigManager.getMessageTraceBufferSize());
+    }
+
+    /**
+     * 记录一条消息（未开启时直接返回）
+     */
+    static record(direction: TraceEntry['direction'], kernelId: string, msg: any, raw?: string | Buffer) {
+        if (!this.enabled) {
+            return;
+        }
+        const now = Date.now();
+        const msgId: string = msg.header?.msg_id ?? '';
+        const parentId: string | undefined = msg.parent_header?.msg_id || undefined;
+        const msgType: string = msg.header?.msg_type ?? msg.msg_type ?? '';
+
+        let latencyMs: number | undefined;
+        if (direction === 'send') {
+            this.sentAt.set(msgId, now);
+        } else if (parentId && this.sentAt.has(parentId)) {
+            latencyMs = now - this.sentAt.get(parentId)!;
+        }
+
+        this.push({
+            time: new Date(now).toISOString(),
+            direction,
+            kernelId,
+            channel: msg.channel ?? '',
+            msgType,
+            msgId,
+            parentId,
+            date: msg.header?.date,
+            latencyMs,
+            size: Buffer.byteLength(raw ?? JSON.stringify(msg)),
+            content: this.sanitize(msgType, msg.content)
+        });
+    }
+
+    /**
+     * 按时间顺序返回记录；指定 msgId 时只返回该消息及以其为 parent 的消息
+     */
+    static getEntries(msgId?: string): TraceEntry[] {
+        const ordered = [...this.entries.slice(this.next), ...this.entries.slice(0, this.next)];
+        return msgId ? ordered.filter(e => e.msgId === msgId || e.parentId === msgId) : ordered;
+    }
+
+    static clear() {
+        this.entries = [];
+        this.next = 0;
+        this.sentAt.clear();
+    }
+
+    /**
+     * 在输出面板中显示记录，可按 msg_id 过滤
+     */
+    static async show() {
+        if (!this.enabled && this.entries.length === 0) {
+            const choice = await vscode.window.showInformationMessage(
+                '内核消息跟踪未开启，是否开启？',
+                '开启'
+            );
+            if (choice === '开启') {
+                await ConfigManager.setMessageTraceEnabled(true);
+            }
+            return;
+        }
+
+        const filter = await vscode.window.showInputBox({
+            title: '内核消息跟踪',
+            prompt: '按 msg_id 过滤（同时显示以其为 parent 的消息），留空显示全部',
+            ignoreFocusOut: true
+        });
+        if (filter === undefined) {
+            return;
+        }
+
+        const entries = this.getEntries(filter.trim() || undefined);
+        this.outputChannel ??= vscode.window.createOutputChannel('JupyterHub Kernel Messages');
+        const channel = this.outputChannel;
+        channel.clear();
+        channel.appendLine(`共 ${entries.length} 条消息${filter.trim() ? `（msg_id: ${filter.trim()}）` : ''}`);
+        for (const e of entries) {
+            const arrow = e.direction === 'send' ? '->' : '<-';
+            const latency = e.latencyMs !== undefined ? ` +${e.latencyMs}ms` : '';
+            const parent = e.parentId ? ` parent=${e.parentId}` : '';
+            channel.appendLine(`${e.time} ${arrow} [${e.channel || '-'}] ${e.msgType} ${e.msgId}${parent} ${e.size}B${latency}`);
+            channel.appendLine(`    ${JSON.stringify(e.content)}`);
+        }
+        channel.show(true);
+    }
+
+    /**
+     * 导出记录为 JSON 文件
+     */
+    static async export() {
+        const entries = this.getEntries();
+        if (entries.length === 0) {
+            vscode.window.showInformationMessage('没有可导出的内核消息记录');
+            return;
+        }
+        // 默认保存到第一个本地工作区文件夹，没有时保存到用户主目录
+        const folder = vscode.workspace.workspaceFolders?.find(f => f.uri.scheme === 'file')?.uri ?? vscode.Uri.file(os.homedir());
+        const uri = await vscode.window.showSaveDialog({
+            defaultUri: vscode.Uri.joinPath(folder, `kernel-messages-${Date.now()}.json`),
+            filters: { JSON: ['json'] }
+        });
+        if (!uri) {
+            return;
+        }
+        await vscode.workspace.fs.writeFile(uri, Buffer.from(JSON.stringify(entries, null, 2)));
+        vscode.window.showInformationMessage(`已导出 ${entries.length} 条内核消息`);
+    }
+
+    private static push(entry: TraceEntry) {
+        const capacity = this.bufferSize;
+        if (capacity !== this.capacity) {
+            // 容量变化：按时间顺序重新排列，保留最新的记录
+            this.entries = this.getEntries().slice(-capacity);
+            this.next = this.entries.length % capacity;
+            this.capacity = capacity;
+        }
+        if (this.entries.length < capacity) {
+            this.entries.push(entry);
+            this.next = this.entries.length % capacity;
+            return;
+        }
+        const evicted = this.entries[this.next];
+        if (evicted.direction === 'send') {
+            this.sentAt.delete(evicted.msgId);
+        }
+        this.entries[this.next] = entry;
+        this.next = (this.next + 1) % capacity;
+    }
+
+    /**
+     * 脱敏并截断 content
+     */
+    private static sanitize(msgType: string, content: any): any {
+        if (!content || typeof content !== 'object') {
+            return content;
+        }
+        let result = content;
+        const fields = REDACTED_FIELDS[msgType];
+        if (fields) {
+            result = { ...content };
+            for (const field of fields) {
+                if (field in result) {
+                    result[field] = '<redacted>';
+                }
+            }
+        }
+        const json = JSON.stringify(result);
+        if (json.length > MAX_CONTENT_LENGTH) {
+            return { truncated: true, preview: json.slice(0, MAX_CONTENT_LENGTH) };
+        }
+        // 保存副本，避免之后被修改
+        return JSON.parse(json);
+    }
+}
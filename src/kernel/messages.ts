@@ -0,0 +1,407 @@
+/**
+ * Jupyter 消息协议
+ * 各通道消息的类型定义、构造消息的工具函数，以及对内核发来消息的校验
+ * 参考 https://jupyter-client.readthedocs.io/en/stable/messaging.html
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { Logger } from '../utils/logger';
+
+// 发送消息时声明的协议版本
+export const PROTOCOL_VERSION = '5.3';
+
+export type Channel = 'shell' | 'iopub' | 'stdin' | 'control';
+
+export interface MessageHeader<T extends string = string> {
+    msg_id: string;
+    username: string;
+    session: string;
+    msg_type: T;
+    version: string;
+    date: string;
+}
+
+/**
+ * MIME 类型 -> 数据
+ */
+export type MimeBundle = Record<string, any>;
+
+type EmptyContent = Record<string, never>;
+
+// ---------- shell ----------
+
+export interface ExecuteRequestContent {
+    code: string;
+    silent: boolean;
+    store_history: boolean;
+    user_expressions: Record<string, string>;
+    allow_stdin: boolean;
+    stop_on_error: boolean;
+}
+
+export interface ExecuteReplyContent {
+    status: 'ok' | 'error' | 'aborted';
+    execution_count?: number | null;
+    payload?: any[];
+    user_expressions?: Record<string, any>;
+    ename?: string;
+    evalue?: string;
+    traceback?: string[];
+}
+
+export interface CompleteRequestContent {
+    code: string;
+    cursor_pos: number;
+}
+
+export interface CompleteReplyContent {
+    status: 'ok' | 'error';
+    matches: string[];
+    cursor_start: number;
+    cursor_end: number;
+    metadata: Record<string, any>;
+}
+
+export interface InspectRequestContent {
+    code: string;
+    cursor_pos: number;
+    detail_level: number;
+}
+
+export interface InspectReplyContent {
+    status: 'ok' | 'error';
+    found: boolean;
+    data: MimeBundle;
+    metadata: Record<string, any>;
+}
+
+/**
+ * kernel_info_reply 中的 language_info
+ */
+export interface LanguageInfo {
+    name: string;
+    version?: string;
+    mimetype?: string;
+    file_extension?: string;
+    pygments_lexer?: string;
+    codemirror_mode?: string | { name: string; [key: string]: any };
+    nbconvert_exporter?: string;
+}
+
+export interface KernelInfoReplyContent {
+    status?: 'ok' | 'error';
+    protocol_version: string;
+    implementation?: string;
+    implementation_version?: string;
+    language_info?: LanguageInfo;
+    banner?: string;
+    /** 内核是否支持 debug_request（ipykernel 6+） */
+    debugger?: boolean;
+    help_links?: { text: string; url: string }[];
+}
+
+export interface CommOpenContent {
+    comm_id: string;
+    target_name: string;
+    data: Record<string, any>;
+    target_module?: string;
+}
+
+export interface CommMsgContent {
+    comm_id: string;
+    data: Record<string, any>;
+}
+
+export type CommCloseContent = CommMsgContent;
+
+// ---------- iopub ----------
+
+export interface StatusContent {
+    execution_state: 'starting' | 'idle' | 'busy' | 'restarting' | 'dead';
+}
+
+export interface StreamContent {
+    name: 'stdout' | 'stderr';
+    text: string;
+}
+
+export interface DisplayDataContent {
+    data: MimeBundle;
+    metadata?: Record<string, any>;
+    transient?: { display_id?: string };
+}
+
+export interface ExecuteResultContent extends DisplayDataContent {
+    execution_count: number;
+}
+
+export interface ErrorContent {
+    ename: string;
+    evalue: string;
+    traceback: string[];
+}
+
+export interface ClearOutputContent {
+    wait: boolean;
+}
+
+export interface ExecuteInputContent {
+    code: string;
+    execution_count: number;
+}
+
+/**
+ * DAP 事件（debug_event 的 content）
+ */
+export interface DebugEventContent {
+    type: 'event';
+    seq: number;
+    event: string;
+    body?: any;
+}
+
+// ---------- stdin ----------
+
+export interface InputRequestContent {
+    prompt: string;
+    password: boolean;
+}
+
+export interface InputReplyContent {
+    value: string;
+}
+
+// ---------- control ----------
+
+/**
+ * DAP 请求（debug_request 的 content）
+ */
+export interface DebugRequestContent {
+    type: 'request';
+    seq: number;
+    command: string;
+    arguments?: any;
+}
+
+/**
+ * DAP 响应（debug_reply 的 content）
+ */
+export interface DebugReplyContent {
+    type: 'response';
+    seq: number;
+    request_seq: number;
+    success: boolean;
+    command: string;
+    message?: string;
+    body?: any;
+}
+
+export interface InterruptReplyContent {
+    status: 'ok' | 'error';
+}
+
+export interface ShutdownRequestContent {
+    restart: boolean;
+}
+
+export interface ShutdownReplyContent {
+    status?: 'ok' | 'error';
+    restart: boolean;
+}
+
+/**
+ * 各通道的消息类型 -> content
+ */
+export interface ShellMessageContents {
+    execute_request: ExecuteRequestContent;
+    execute_reply: ExecuteReplyContent;
+    complete_request: CompleteRequestContent;
+    complete_reply: CompleteReplyContent;
+    inspect_request: InspectRequestContent;
+    inspect_reply: InspectReplyContent;
+    kernel_info_request: EmptyContent;
+    kernel_info_reply: KernelInfoReplyContent;
+    comm_open: CommOpenContent;
+    comm_msg: CommMsgContent;
+    comm_close: CommCloseContent;
+}
+
+export interface IOPubMessageContents {
+    status: StatusContent;
+    stream: StreamContent;
+    display_data: DisplayDataContent;
+    execute_result: ExecuteResultContent;
+    update_display_data: DisplayDataContent;
+    error: ErrorContent;
+    clear_output: ClearOutputContent;
+    execute_input: ExecuteInputContent;
+    comm_open: CommOpenContent;
+    comm_msg: CommMsgContent;
+    comm_close: CommCloseContent;
+    debug_event: DebugEventContent;
+}
+
+export interface StdinMessageContents {
+    input_request: InputRequestContent;
+    input_reply: InputReplyContent;
+}
+
+export interface ControlMessageContents {
+    interrupt_request: EmptyContent;
+    interrupt_reply: InterruptReplyContent;
+    debug_request: DebugRequestContent;
+    debug_reply: DebugReplyContent;
+    shutdown_request: ShutdownRequestContent;
+    shutdown_reply: ShutdownReplyContent;
+}
+
+export interface MessageContents extends ShellMessageContents, IOPubMessageContents, StdinMessageContents, ControlMessageContents { }
+
+export type MessageType = keyof MessageContents;
+
+/**
+ * 以 `_request` 结尾、有对应 `_reply` 的消息类型
+ */
+export type RequestType = {
+    [T in MessageType]: T extends `${infer P}_request` ? (`${P}_reply` extends MessageType ? T : never) : never
+}[MessageType];
+
+export type ReplyType<T extends RequestType> = T extends `${infer P}_request` ? Extract<`${P}_reply`, MessageType> : never;
+
+export interface Message<T extends MessageType = MessageType> {
+    header: MessageHeader<T>;
+    // 没有 parent 的消息为 {}
+    parent_header: Partial<MessageHeader>;
+    metadata: Record<string, any>;
+    content: MessageContents[T];
+    channel?: Channel;
+    // 二进制数据（如 ipywidgets 的数组）；收到的消息中均为 ArrayBuffer
+    buffers?: (ArrayBuffer | ArrayBufferView)[];
+}
+
+/**
+ * 按 msg_type 区分的消息联合类型，配合 isMessageType 收窄
+ */
+export type MessageOf<T extends MessageType> = { [K in T]: Message<K> }[T];
+
+export type ShellMessage = MessageOf<keyof ShellMessageContents>;
+export type IOPubMessage = MessageOf<keyof IOPubMessageContents>;
+export type StdinMessage = MessageOf<keyof StdinMessageContents>;
+export type ControlMessage = MessageOf<keyof ControlMessageContents>;
+export type KernelMessage = ShellMessage | IOPubMessage | StdinMessage | ControlMessage;
+
+/**
+ * 执行过程中属于 Cell 输出的 iopub 消息
+ */
+export type ExecuteOutputMessage = MessageOf<'stream' | 'display_data' | 'execute_result' | 'error' | 'clear_output' | 'execute_input'>;
+
+/**
+ * 判断消息类型（header.msg_type 位于嵌套对象中，TypeScript 无法直接据此收窄）
+ */
+export function isMessageType<T extends MessageType>(msg: Message, ...types: T[]): msg is MessageOf<T> {
+    return (types as string[]).includes(msg.header.msg_type);
+}
+
+/**
+ * 构造消息，填充 header（msg_id、session、时间等）
+ */
+export function createMessage<T extends MessageType>(
+    msgType: T,
+    content: MessageContents[T],
+    options: { session: string; channel: Channel; parentHeader?: MessageHeader; username?: string }
+): Message<T> {
+    return {
+        header: {
+            msg_id: uuidv4(),
+            username: options.username ?? 'vscode',
+            session: options.session,
+            msg_type: msgType,
+            version: PROTOCOL_VERSION,
+            date: new Date().toISOString()
+        },
+        parent_header: options.parentHeader ?? {},
+        metadata: {},
+        content,
+        channel: options.channel
+    };
+}
+
+type FieldType = 'string' | 'number' | 'boolean' | 'object' | 'array';
+
+// 已知消息类型的必需字段；未列出的类型只校验消息结构
+const REQUIRED_FIELDS: Partial<Record<MessageType, Record<string, FieldType>>> = {
+    status: { execution_state: 'string' },
+    stream: { name: 'string', text: 'string' },
+    display_data: { data: 'object' },
+    execute_result: { data: 'object' },
+    update_display_data: { data: 'object' },
+    error: { ename: 'string', evalue: 'string', traceback: 'array' },
+    execute_input: { code: 'string' },
+    execute_reply: { status: 'string' },
+    complete_reply: { status: 'string' },
+    inspect_reply: { status: 'string' },
+    kernel_info_reply: { protocol_version: 'string' },
+    comm_open: { comm_id: 'string', target_name: 'string' },
+    comm_msg: { comm_id: 'string' },
+    comm_close: { comm_id: 'string' },
+    input_request: { prompt: 'string' },
+    debug_event: { event: 'string' },
+    debug_reply: { type: 'string' }
+};
+
+/**
+ * 是否为普通对象（不含数组和 null）
+ */
+export function isObject(value: unknown): value is Record<string, any> {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function checkField(value: unknown, type: FieldType): boolean {
+    if (type === 'array') {
+        return Array.isArray(value);
+    }
+    if (type === 'object') {
+        return isObject(value);
+    }
+    return typeof value === type;
+}
+
+/**
+ * 校验内核发来的消息；结构不完整时记录日志并返回 undefined（不抛出异常）
+ * 未知的消息类型原样返回，由调用方决定是否处理
+ */
+export function validateMessage(data: unknown): Message | undefined {
+    const invalid = (reason: string) => {
+        Logger.warn(`[Kernel] Dropping malformed message: ${reason}`);
+        return undefined;
+    };
+
+    if (!isObject(data)) {
+        return invalid('not an object');
+    }
+    const header = data.header;
+    if (!isObject(header) || typeof header.msg_id !== 'string' || typeof header.msg_type !== 'string') {
+        return invalid('missing header.msg_id or header.msg_type');
+    }
+    const msgType = header.msg_type;
+    if (!isObject(data.content)) {
+        return invalid(`${msgType} ${header.msg_id} has no content`);
+    }
+    if (data.parent_header !== undefined && data.parent_header !== null && !isObject(data.parent_header)) {
+        return invalid(`${msgType} ${header.msg_id} has invalid parent_header`);
+    }
+
+    const required = REQUIRED_FIELDS[msgType as MessageType];
+    for (const [field, type] of Object.entries(required ?? {})) {
+        if (!checkField(data.content[field], type)) {
+            return invalid(`${msgType} ${header.msg_id} content.${field} is not ${type}`);
+        }
+    }
+
+    // 补全可省略的字段，之后的处理无需再判空
+    return {
+        ...data,
+        parent_header: data.parent_header ?? {},
+        metadata: isObject(data.metadata) ? data.metadata : {}
+    } as Message;
+}
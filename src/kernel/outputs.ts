@@ -0,0 +1,146 @@
+/**
+ * Jupyter MIME bundle 到 VS Code Notebook 输出的转换
+ */
+
+import * as vscode from 'vscode';
+import { DisplayDataContent, ExecuteResultContent } from './messages';
+
+/**
+ * 渲染优先级（越靠前越丰富），VS Code 默认选择第一个可渲染的输出项
+ */
+const MIME_PRIORITY: (string | RegExp)[] = [
+    'application/vnd.jupyter.widget-view+json',
+    /^application\/vnd\..*\+json$/,
+    'application/javascript',
+    'text/html',
+    'image/svg+xml',
+    'image/png',
+    'image/jpeg',
+    'image/gif',
+    'text/markdown',
+    'text/latex',
+    'application/json',
+    'text/plain'
+];
+
+// Jupyter 协议中以 base64 传输的二进制图片
+const BASE64_IMAGE_MIMES = new Set(['image/png', 'image/jpeg', 'image/gif', 'image/bmp', 'image/webp']);
+
+function mimeRank(mime: string): number {
+    const index = MIME_PRIORITY.findIndex(p => typeof p === 'string' ? p === mime : p.test(mime));
+    // 未知类型排在 text/plain 之前
+    return index === -1 ? MIME_PRIORITY.length - 1.5 : index;
+}
+
+function isJsonMime(mime: string): boolean {
+    return mime === 'application/json' || /\+json$/.test(mime);
+}
+
+/**
+ * nbformat 允许多行文本以字符串数组形式出现
+ */
+function toText(value: any): string {
+    if (Array.isArray(value)) {
+        return value.join('');
+    }
+    return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * 按 MIME 类型解码单个输出项
+ */
+function decodeOutputItem(mime: string, value: any): vscode.NotebookCellOutputItem {
+    if (BASE64_IMAGE_MIMES.has(mime)) {
+        const base64 = toText(value).replace(/\s/g, '');
+        return new vscode.NotebookCellOutputItem(Buffer.from(base64, 'base64'), mime);
+    }
+
+    if (isJsonMime(mime)) {
+        if (typeof value === 'string') {
+            try {
+                return vscode.NotebookCellOutputItem.json(JSON.parse(value), mime);
+            } catch {
+                return vscode.NotebookCellOutputItem.text(value, mime);
+            }
+        }
+        return vscode.NotebookCellOutputItem.json(value, mime);
+    }
+
+    // SVG / HTML / LaTeX / Markdown / 纯文本等均按文本处理
+    return vscode.NotebookCellOutputItem.text(toText(value), mime);
+}
+
+function escapeAttribute(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
+
+/**
+ * metadata 中指定了尺寸的图片：生成带 width/height 的 <img>（内置图片渲染器不读取 metadata）
+ */
+function sizedImageHtml(data: Record<string, any>, metadata: Record<string, any>): string | undefined {
+    for (const mime of Object.keys(data)) {
+        const size = metadata[mime];
+        if (!BASE64_IMAGE_MIMES.has(mime) || !size || (size.width === undefined && size.height === undefined)) {
+            continue;
+        }
+        const attributes = (['width', 'height'] as const)
+            .filter(name => Number.isFinite(Number(size[name])))
+            .map(name => ` ${name}="${Number(size[name])}"`)
+            .join('');
+        const base64 = toText(data[mime]).replace(/\s/g, '');
+        return `<img src="data:${mime};base64,${base64}"${attributes}>`;
+    }
+    return undefined;
+}
+
+/**
+ * isolated 的 HTML：放入沙箱 iframe，iframe 加载后按内容高度调整
+ */
+function isolatedHtml(html: string): string {
+    const id = `isolated-${Math.random().toString(36).slice(2)}`;
+    const content = `${html}<script>window.addEventListener('load', () => parent.postMessage({ '${id}': document.documentElement.scrollHeight }, '*'));</script>`;
+    return `<iframe id="${id}" sandbox="allow-scripts" style="width: 100%; border: none;" srcdoc="${escapeAttribute(content)}"></iframe>`
+        + `<script>window.addEventListener('message', e => { const height = e.data && e.data['${id}']; if (height) { document.getElementById('${id}').style.height = height + 'px'; } });</script>`;
+}
+
+/**
+ * 将 MIME bundle 转换为按丰富程度排序的输出项
+ * metadata 中的图片尺寸和 isolated 通过额外的 text/html 输出项实现：该项排在最前面供 VS Code 渲染，
+ * 原始数据仍在其后（保存 notebook 时同一 MIME 以后面的输出项为准，文件中保留原始数据）
+ */
+export function toOutputItems(data: Record<string, any>, metadata: Record<string, any> = {}): vscode.NotebookCellOutputItem[] {
+    const items = Object.keys(data ?? {})
+        .sort((a, b) => mimeRank(a) - mimeRank(b))
+        .map(mime => decodeOutputItem(mime, data[mime]));
+
+    const html = data?.['text/html'];
+    if (html !== undefined) {
+        if (metadata.isolated || metadata['text/html']?.isolated) {
+            items.unshift(vscode.NotebookCellOutputItem.text(isolatedHtml(toText(html)), 'text/html'));
+        }
+    } else {
+        const image = sizedImageHtml(data ?? {}, metadata);
+        if (image) {
+            items.unshift(vscode.NotebookCellOutputItem.text(image, 'text/html'));
+        }
+    }
+    return items;
+}
+
+/**
+ * 根据 execute_result / display_data 消息创建 Notebook 输出
+ * 输出 metadata 沿用 ipynb 序列化器的格式，保存 notebook 时可还原图片尺寸、isolated 等信息
+ */
+export function createDisplayOutput(msgType: 'execute_result' | 'display_data', content: DisplayDataContent): vscode.NotebookCellOutput {
+    const metadata: Record<string, any> = {
+        outputType: msgType,
+        metadata: content.metadata ?? {}
+    };
+    if (msgType === 'execute_result') {
+        metadata.executionCount = (content as ExecuteResultContent).execution_count;
+    }
+    if (content.transient) {
+        metadata.transient = content.transient;
+    }
+    return new vscode.NotebookCellOutput(toOutputItems(content.data, content.metadata), metadata);
+}
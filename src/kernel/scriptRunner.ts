@@ -0,0 +1,214 @@
+/**
+ * 脚本运行
+ * 按 `# %%` 标记把脚本切分为 Cell，在远程内核中运行 Cell 或选中代码，输出显示在关联脚本的 notebook 面板中
+ */
+
+import * as vscode from 'vscode';
+import { KernelControllerManager } from '../providers/kernelControllerManager';
+import { SCRIPT_SOURCE_METADATA } from './cellUtils';
+
+// 支持 `# %%` 标记的语言（均使用 # 注释）
+export const SCRIPT_LANGUAGES = ['python', 'r', 'julia'];
+
+const CELL_MARKER = /^\s*#\s*%%/;
+
+/**
+ * 脚本中由 `# %%` 标记的 Cell
+ */
+interface ScriptCell {
+    // 从标记行到 Cell 最后一行
+    range: vscode.Range;
+    // 标记行之后的代码
+    code: string;
+}
+
+/**
+ * 解析脚本中的 Cell；第一个标记之前的内容不属于任何 Cell
+ */
+function parseScriptCells(document: vscode.TextDocument): ScriptCell[] {
+    const markers: number[] = [];
+    for (let line = 0; line < document.lineCount; line++) {
+        if (CELL_MARKER.test(document.lineAt(line).text)) {
+            markers.push(line);
+        }
+    }
+    return markers.map((start, i) => {
+        const end = i + 1 < markers.length ? markers[i + 1] - 1 : document.lineCount - 1;
+        const range = new vscode.Range(start, 0, end, document.lineAt(end).text.length);
+        const code = start < end
+            ? document.getText(new vscode.Range(start + 1, 0, end, document.lineAt(end).text.length))
+            : '';
+        return { range, code };
+    });
+}
+
+/**
+ * 在 `# %%` 标记上显示 Run Cell / Run Below
+ */
+export class ScriptCodeLensProvider implements vscode.CodeLensProvider, vscode.Disposable {
+    private _onDidChangeCodeLenses = new vscode.EventEmitter<void>();
+    readonly onDidChangeCodeLenses = this._onDidChangeCodeLenses.event;
+    private subscription: vscode.Disposable;
+
+    constructor(private readonly controllerManager: KernelControllerManager) {
+        // 内核列表变化（连接/断开服务器）时刷新
+        this.subscription = controllerManager.onDidChangeKernelStatus(uri => {
+            if (!uri) {
+                this._onDidChangeCodeLenses.fire();
+            }
+        });
+    }
+
+    provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+        if (!this.controllerManager.findControllerByLanguage(document.languageId)) {
+            return [];
+        }
+        const lenses: vscode.CodeLens[] = [];
+        parseScriptCells(document).forEach((cell, index) => {
+            const range = new vscode.Range(cell.range.start, cell.range.start);
+            lenses.push(
+                new vscode.CodeLens(range, { title: 'Run Cell', command: 'jupyterhub.runScriptCell', arguments: [document.uri, index] }),
+                new vscode.CodeLens(range, { title: 'Run Below', command: 'jupyterhub.runScriptCellsBelow', arguments: [document.uri, index] })
+            );
+        });
+        return lenses;
+    }
+
+    dispose() {
+        this.subscription.dispose();
+        this._onDidChangeCodeLenses.dispose();
+    }
+}
+
+export class ScriptRunner implements vscode.Disposable {
+    // 脚本 uri -> 输出面板 notebook
+    private panels = new Map<string, vscode.NotebookDocument>();
+    private subscription: vscode.Disposable;
+
+    constructor(
+        private readonly controllerManager: KernelControllerManager,
+        private readonly extensionId: string
+    ) {
+        this.subscription = vscode.workspace.onDidCloseNotebookDocument(notebook => {
+            for (const [key, panel] of this.panels) {
+                if (panel === notebook) {
+                    this.panels.delete(key);
+                }
+            }
+        });
+    }
+
+    /**
+     * 运行指定 Cell；未指定时运行光标所在 Cell
+     */
+    async runCell(uri?: vscode.Uri, index?: number) {
+        const target = await this.resolveCell(uri, index);
+        if (target) {
+            await this.run(target.document, [target.cells[target.index].code]);
+        }
+    }
+
+    /**
+     * 运行指定 Cell 及其后的全部 Cell
+     */
+    async runBelow(uri?: vscode.Uri, index?: number) {
+        const target = await this.resolveCell(uri, index);
+        if (target) {
+            await this.run(target.document, target.cells.slice(target.index).map(cell => cell.code));
+        }
+    }
+
+    /**
+     * 运行当前编辑器中选中的代码（无选区时运行当前行）
+     */
+    async runSelection() {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) {
+            return;
+        }
+        const code = editor.selections
+            .map(selection => selection.isEmpty
+                ? editor.document.lineAt(selection.active.line).text
+                : editor.document.getText(selection))
+            .join('\n');
+        await this.run(editor.document, [code]);
+    }
+
+    dispose() {
+        this.subscription.dispose();
+        this.panels.clear();
+    }
+
+    private async resolveCell(uri?: vscode.Uri, index?: number) {
+        const editor = vscode.window.activeTextEditor;
+        const document = uri
+            ? await vscode.workspace.openTextDocument(uri)
+            : editor?.document;
+        if (!document) {
+            return undefined;
+        }
+        const cells = parseScriptCells(document);
+        const cellIndex = index ?? cells.findIndex(cell => editor && cell.range.contains(editor.selection.active));
+        if (cellIndex < 0 || cellIndex >= cells.length) {
+            vscode.window.showWarningMessage('光标不在 `# %%` 标记的 Cell 中');
+            return undefined;
+        }
+        return { document, cells, index: cellIndex };
+    }
+
+    /**
+     * 将代码追加为面板中的 Cell 并执行
+     */
+    private async run(document: vscode.TextDocument, codes: string[]) {
+        codes = codes.filter(code => code.trim().length > 0);
+        if (codes.length === 0) {
+            return;
+        }
+        const notebook = await this.getPanel(document);
+        if (!notebook) {
+            return;
+        }
+
+        const start = notebook.cellCount;
+        const edit = new vscode.WorkspaceEdit();
+        edit.set(notebook.uri, [
+            vscode.NotebookEdit.insertCells(start, codes.map(code => new vscode.NotebookCellData(vscode.NotebookCellKind.Code, code, document.languageId)))
+        ]);
+        await vscode.workspace.applyEdit(edit);
+        await vscode.commands.executeCommand('notebook.cell.execute', {
+            ranges: [{ start, end: start + codes.length }],
+            document: notebook.uri
+        });
+    }
+
+    /**
+     * 获取脚本的输出面板；不存在时在旁边新建，并选中对应语言的远程内核
+     * 面板记录来源脚本，内核会话按脚本路径建立（工作目录为脚本所在目录）
+     */
+    private async getPanel(document: vscode.TextDocument): Promise<vscode.NotebookDocument | undefined> {
+        const key = document.uri.toString();
+        const existing = this.panels.get(key);
+        if (existing && !existing.isClosed) {
+            await vscode.window.showNotebookDocument(existing, { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true });
+            return existing;
+        }
+
+        const controller = this.controllerManager.findControllerByLanguage(document.languageId);
+        if (!controller) {
+            vscode.window.showWarningMessage(`没有可运行 ${document.languageId} 的远程内核，请先连接 JupyterHub 服务器`);
+            return undefined;
+        }
+
+        const data = new vscode.NotebookData([]);
+        data.metadata = { [SCRIPT_SOURCE_METADATA]: key };
+        const notebook = await vscode.workspace.openNotebookDocument('jupyter-notebook', data);
+        const editor = await vscode.window.showNotebookDocument(notebook, { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true });
+        await vscode.commands.executeCommand('notebook.selectKernel', {
+            notebookEditor: editor,
+            id: controller.id,
+            extension: this.extensionId
+        });
+        this.panels.set(key, notebook);
+        return notebook;
+    }
+}
@@ -0,0 +1,130 @@
+/**
+ * 内核 WebSocket 消息的编解码
+ * - 默认协议：不带 buffers 的消息为 JSON 文本帧，带 buffers 的消息为二进制帧（uint32 大端偏移表）
+ * - v1.kernel.websocket.jupyter.org：所有消息都是二进制帧（uint64 小端偏移表），channel 单独成段
+ * 格式与 jupyter_server 的 kernels/connection 及 @jupyterlab/services 的 serialize 一致
+ */
+
+import { Message } from './messages';
+
+export const V1_SUBPROTOCOL = 'v1.kernel.websocket.jupyter.org';
+
+export type WireProtocol = 'default' | 'v1';
+
+/**
+ * 从帧中截取一段为独立的 ArrayBuffer
+ */
+function sliceArrayBuffer(data: Buffer, start: number, end: number): ArrayBuffer {
+    return new Uint8Array(data.buffer, data.byteOffset + start, end - start).slice().buffer;
+}
+
+function toBuffer(buffer: ArrayBuffer | ArrayBufferView): Buffer {
+    return ArrayBuffer.isView(buffer)
+        ? Buffer.from(buffer.buffer, buffer.byteOffset, buffer.byteLength)
+        : Buffer.from(buffer);
+}
+
+/**
+ * 解码收到的帧，返回未经校验的消息对象
+ */
+export function deserializeMessage(data: Buffer, isBinary: boolean, protocol: WireProtocol): unknown {
+    if (!isBinary) {
+        return JSON.parse(data.toString('utf8'));
+    }
+    return protocol === 'v1' ? deserializeV1(data) : deserializeDefault(data);
+}
+
+/**
+ * 编码待发送的消息
+ */
+export function serializeMessage(msg: Message, protocol: WireProtocol): string | Buffer {
+    if (protocol === 'v1') {
+        return serializeV1(msg);
+    }
+    if (!msg.buffers || msg.buffers.length === 0) {
+        return JSON.stringify({ ...msg, buffers: undefined });
+    }
+    return serializeDefault(msg);
+}
+
+/**
+ * 默认协议的二进制帧：
+ * nbufs | offset_0 ... offset_{nbufs-1} | JSON 消息 | buffer_1 ... （均为 uint32 大端）
+ */
+function deserializeDefault(data: Buffer): unknown {
+    const count = data.readUInt32BE(0);
+    const offsets: number[] = [];
+    for (let i = 0; i < count; i++) {
+        offsets.push(data.readUInt32BE(4 * (i + 1)));
+    }
+    offsets.push(data.length);
+
+    const msg = JSON.parse(data.toString('utf8', offsets[0], offsets[1]));
+    msg.buffers = [];
+    for (let i = 1; i < count; i++) {
+        msg.buffers.push(sliceArrayBuffer(data, offsets[i], offsets[i + 1]));
+    }
+    return msg;
+}
+
+function serializeDefault(msg: Message): Buffer {
+    const parts = [
+        Buffer.from(JSON.stringify({ ...msg, buffers: undefined }), 'utf8'),
+        ...(msg.buffers ?? []).map(toBuffer)
+    ];
+
+    const header = Buffer.alloc(4 * (parts.length + 1));
+    header.writeUInt32BE(parts.length, 0);
+    let offset = header.length;
+    parts.forEach((part, i) => {
+        header.writeUInt32BE(offset, 4 * (i + 1));
+        offset += part.length;
+    });
+    return Buffer.concat([header, ...parts]);
+}
+
+/**
+ * v1 协议的二进制帧：
+ * offset_number | offset_0 ... offset_{n-1} | channel | header | parent_header | metadata | content | buffer_0 ...
+ * （uint64 小端；最后一个偏移量为帧末尾）
+ */
+function deserializeV1(data: Buffer): unknown {
+    const count = Number(data.readBigUInt64LE(0));
+    const offsets: number[] = [];
+    for (let i = 0; i < count; i++) {
+        offsets.push(Number(data.readBigUInt64LE(8 * (i + 1))));
+    }
+    const part = (i: number) => data.toString('utf8', offsets[i], offsets[i + 1]);
+
+    const buffers: ArrayBuffer[] = [];
+    for (let i = 5; i < count - 1; i++) {
+        buffers.push(sliceArrayBuffer(data, offsets[i], offsets[i + 1]));
+    }
+    return {
+        channel: part(0),
+        header: JSON.parse(part(1)),
+        parent_header: JSON.parse(part(2)),
+        metadata: JSON.parse(part(3)),
+        content: JSON.parse(part(4)),
+        buffers
+    };
+}
+
+function serializeV1(msg: Message): Buffer {
+    const parts = [
+        Buffer.from(msg.channel ?? 'shell', 'utf8'),
+        ...[msg.header, msg.parent_header, msg.metadata, msg.content].map(value => Buffer.from(JSON.stringify(value), 'utf8')),
+        ...(msg.buffers ?? []).map(toBuffer)
+    ];
+
+    const count = parts.length + 1;
+    const header = Buffer.alloc(8 * (count + 1));
+    header.writeBigUInt64LE(BigInt(count), 0);
+    let offset = header.length;
+    parts.forEach((part, i) => {
+        header.writeBigUInt64LE(BigInt(offset), 8 * (i + 1));
+        offset += part.length;
+    });
+    header.writeBigUInt64LE(BigInt(offset), 8 * count);
+    return Buffer.concat([header, ...parts]);
+}
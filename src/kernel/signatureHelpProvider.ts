@@ -0,0 +1,200 @@
+/**
+ * 远程内核函数签名提示
+ * 在 "(" 和 "," 处通过 inspect_request 获取签名并解析参数列表
+ */
+
+import * as vscode from 'vscode';
+import { KernelControllerManager } from '../providers/kernelControllerManager';
+import { findNotebookForCell, stripAnsi, toCodePointOffset } from './cellUtils';
+
+const OPEN_BRACKETS = '([{';
+const CLOSE_BRACKETS = ')]}';
+// 向前查找调用位置的最大字符数
+const MAX_LOOKBEHIND = 2000;
+
+/**
+ * 查找光标所在的函数调用，返回被调用表达式结束位置和当前参数序号
+ * 从光标前若干字符处的行首正向扫描，跳过字符串和注释中的括号与逗号
+ */
+function findCallContext(code: string, offset: number): { calleeEnd: number; activeParameter: number } | undefined {
+    let start = Math.max(0, offset - MAX_LOOKBEHIND);
+    if (start > 0) {
+        // 从下一行行首开始，避免从字符串中间开始扫描
+        const lineStart = code.indexOf('\n', start) + 1;
+        if (lineStart > 0 && lineStart < offset) {
+            start = lineStart;
+        }
+    }
+
+    // 未闭合的括号及其中的顶层逗号数
+    const open: { index: number; commas: number }[] = [];
+    let quote: string | undefined;
+    for (let i = start; i < offset; i++) {
+        const ch = code[i];
+        if (quote) {
+            if (ch === '\\') {
+                i++;
+            } else if (code.startsWith(quote, i)) {
+                i += quote.length - 1;
+                quote = undefined;
+            } else if (ch === '\n' && quote.length === 1) {
+                // 未闭合的单行字符串
+                quote = undefined;
+            }
+        } else if (ch === '#') {
+            const lineEnd = code.indexOf('\n', i);
+            if (lineEnd === -1 || lineEnd >= offset) {
+                // 光标位于注释中
+                return undefined;
+            }
+            i = lineEnd;
+        } else if (ch === '"' || ch === "'") {
+            quote = code.startsWith(ch.repeat(3), i) ? ch.repeat(3) : ch;
+            i += quote.length - 1;
+        } else if (OPEN_BRACKETS.includes(ch)) {
+            open.push({ index: i, commas: 0 });
+        } else if (CLOSE_BRACKETS.includes(ch)) {
+            open.pop();
+        } else if (ch === ',' && open.length > 0) {
+            open[open.length - 1].commas++;
+        }
+    }
+
+    const innermost = open[open.length - 1];
+    if (!innermost || code[innermost.index] !== '(') {
+        return undefined;
+    }
+    let end = innermost.index;
+    while (end > 0 && /\s/.test(code[end - 1])) {
+        end--;
+    }
+    // "(" 前没有标识符，说明是普通括号表达式而非调用
+    if (end === 0 || !/[\w.)\]]/.test(code[end - 1])) {
+        return undefined;
+    }
+    return { calleeEnd: end, activeParameter: innermost.commas };
+}
+
+/**
+ * 按顶层逗号拆分参数列表，忽略括号和字符串中的逗号
+ */
+function splitParameters(params: string): { start: number; end: number }[] {
+    const result: { start: number; end: number }[] = [];
+    let depth = 0;
+    let quote: string | undefined;
+    let start = 0;
+
+    const push = (end: number) => {
+        const raw = params.slice(start, end);
+        const trimmedStart = start + (raw.length - raw.trimStart().length);
+        const trimmedEnd = end - (raw.length - raw.trimEnd().length);
+        const text = params.slice(trimmedStart, trimmedEnd);
+        // 跳过仅用于标记位置参数/关键字参数的 "/" 和 "*"
+        if (text && text !== '/' && text !== '*') {
+            result.push({ start: trimmedStart, end: trimmedEnd });
+        }
+    };
+
+    for (let i = 0; i < params.length; i++) {
+        const ch = params[i];
+        if (quote) {
+            if (ch === '\\') {
+                i++;
+            } else if (ch === quote) {
+                quote = undefined;
+            }
+        } else if (ch === '"' || ch === "'") {
+            quote = ch;
+        } else if (OPEN_BRACKETS.includes(ch)) {
+            depth++;
+        } else if (CLOSE_BRACKETS.includes(ch)) {
+            depth--;
+        } else if (ch === ',' && depth === 0) {
+            push(i);
+            start = i + 1;
+        }
+    }
+    push(params.length);
+    return result;
+}
+
+/**
+ * 解析 IPython 风格的检查输出（"Signature:" / "Init signature:" + "Docstring:"）
+ */
+function parseInspection(text: string): { signature: string; docstring?: string } | undefined {
+    const lines = stripAnsi(text).split('\n');
+    const sections = new Map<string, string[]>();
+    let current: string[] | undefined;
+
+    for (const line of lines) {
+        const header = /^([A-Z][\w ]*):(?:\s(.*))?$/.exec(line);
+        if (header) {
+            current = [];
+            sections.set(header[1], current);
+            if (header[2] !== undefined) {
+                current.push(header[2]);
+            }
+        } else if (current) {
+            current.push(line);
+        }
+    }
+
+    const signatureLines = sections.get('Signature') ?? sections.get('Init signature') ?? sections.get('Call signature');
+    if (!signatureLines) {
+        return undefined;
+    }
+    const signature = signatureLines.map(l => l.trim()).join(' ').replace(/\(\s+/g, '(').replace(/\s+\)/g, ')').trim();
+    const docstring = sections.get('Docstring')?.join('\n').trim();
+    return { signature, docstring: docstring || undefined };
+}
+
+export class RemoteSignatureHelpProvider implements vscode.SignatureHelpProvider {
+    constructor(private readonly controllerManager: KernelControllerManager) { }
+
+    async provideSignatureHelp(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        token: vscode.CancellationToken
+    ): Promise<vscode.SignatureHelp | undefined> {
+        const notebook = findNotebookForCell(document);
+        const session = notebook && this.controllerManager.getSession(notebook);
+        if (!session) {
+            return undefined;
+        }
+
+        const code = document.getText();
+        const context = findCallContext(code, document.offsetAt(position));
+        if (!context) {
+            return undefined;
+        }
+
+        const reply = await session.requestInspect(code, toCodePointOffset(code, context.calleeEnd));
+        if (!reply || reply.status !== 'ok' || !reply.found || token.isCancellationRequested) {
+            return undefined;
+        }
+
+        const plain = reply.data?.['text/plain'];
+        const parsed = typeof plain === 'string' ? parseInspection(plain) : undefined;
+        if (!parsed) {
+            return undefined;
+        }
+
+        const openParen = parsed.signature.indexOf('(');
+        const closeParen = parsed.signature.lastIndexOf(')');
+        if (openParen === -1 || closeParen <= openParen) {
+            return undefined;
+        }
+
+        const info = new vscode.SignatureInformation(parsed.signature, parsed.docstring);
+        const paramsOffset = openParen + 1;
+        info.parameters = splitParameters(parsed.signature.slice(paramsOffset, closeParen)).map(p =>
+            new vscode.ParameterInformation([paramsOffset + p.start, paramsOffset + p.end])
+        );
+
+        const help = new vscode.SignatureHelp();
+        help.signatures = [info];
+        help.activeSignature = 0;
+        help.activeParameter = Math.min(context.activeParameter, Math.max(info.parameters.length - 1, 0));
+        return help;
+    }
+}
@@ -0,0 +1,128 @@
+/**
+ * 内核启动代码
+ * 连接内核后静默执行：切换到 notebook 所在目录、设置环境变量，以及用户按内核/服务器配置的初始化代码
+ */
+
+import { ConfigManager } from '../utils/config';
+import { isUrlUnder } from '../utils/url';
+
+/**
+ * 生成启动代码所需的上下文
+ */
+export interface StartupContext {
+    kernelName: string;
+    language: string;
+    serverUrl: string;
+    /** notebook 在服务器上的路径（相对服务器根目录），本地 notebook 为空 */
+    notebookPath?: string;
+}
+
+/**
+ * 各语言的内置片段
+ */
+interface LanguageSnippets {
+    chdir(dir: string): string;
+    setEnv(env: Record<string, string>): string;
+}
+
+// Julia 字符串中的 $ 表示插值，需要转义
+function juliaString(value: string): string {
+    return JSON.stringify(value).replace(/\$/g, '\\$');
+}
+
+const LANGUAGES: Record<string, LanguageSnippets> = {
+    python: {
+        // 在函数内执行，避免向用户命名空间引入变量；同时把目录加入 sys.path，保证能 import 同级文件
+        chdir: dir => `
+def __jupyterhub_remote_startup():
+    import os, sys
+    target = ${JSON.stringify(dir)}
+    for candidate in (target, os.path.expanduser('~/' + target)):
+        if os.path.isdir(candidate):
+            os.chdir(candidate)
+            break
+    if os.getcwd() not in sys.path:
+        sys.path.insert(0, os.getcwd())
+try:
+    __jupyterhub_remote_startup()
+finally:
+    del __jupyterhub_remote_startup
+`,
+        setEnv: env => `__import__('os').environ.update(${JSON.stringify(env)})`
+    },
+    r: {
+        chdir: dir => `
+local({
+    target <- ${JSON.stringify(dir)}
+    for (candidate in c(target, file.path(path.expand("~"), target))) {
+        if (dir.exists(candidate)) {
+            setwd(candidate)
+            break
+        }
+    }
+})
+`,
+        setEnv: env => `do.call(Sys.setenv, list(${Object.entries(env).map(([k, v]) => `${JSON.stringify(k)} = ${JSON.stringify(v)}`).join(', ')}))`
+    },
+    julia: {
+        chdir: dir => `
+let target = ${juliaString(dir)}
+    for candidate in (target, joinpath(homedir(), target))
+        if isdir(candidate)
+            cd(candidate)
+            break
+        end
+    end
+end
+`,
+        setEnv: env => Object.entries(env)
+            .map(([k, v]) => `ENV[${juliaString(k)}] = ${juliaString(v)}`)
+            .join('\n') + '\nnothing'
+    }
+};
+
+/**
+ * 按执行顺序生成启动代码片段：工作目录 → 环境变量 → 内核/语言初始化代码 → 服务器初始化代码
+ */
+export function buildStartupCode(context: StartupContext): string[] {
+    const language = context.language.toLowerCase();
+    const builtin = LANGUAGES[language];
+    const snippets: string[] = [];
+
+    const notebookDir = context.notebookPath?.includes('/')
+        ? context.notebookPath.substring(0, context.notebookPath.lastIndexOf('/'))
+        : '';
+    if (builtin && notebookDir && ConfigManager.getKernelSetWorkingDirectory()) {
+        snippets.push(builtin.chdir(notebookDir));
+    }
+
+    const env = Object.fromEntries(Object.entries(ConfigManager.getKernelEnv()).map(([k, v]) => [k, String(v)]));
+    if (builtin && Object.keys(env).length > 0) {
+        snippets.push(builtin.setEnv(env));
+    }
+
+    // 用户代码支持 ${notebookDir} / ${notebookPath} / ${kernelName} 占位符
+    const variables: Record<string, string> = {
+        notebookDir,
+        notebookPath: context.notebookPath ?? '',
+        kernelName: context.kernelName
+    };
+    const expand = (code: string | string[]) => (Array.isArray(code) ? code.join('\n') : code)
+        .replace(/\$\{(notebookDir|notebookPath|kernelName)\}/g, (_, name) => variables[name]);
+
+    // kernelspec 名称优先于语言
+    const byKernel = ConfigManager.getKernelStartupCode();
+    const kernelCode = byKernel[context.kernelName] ?? byKernel[language];
+    if (kernelCode) {
+        snippets.push(expand(kernelCode));
+    }
+
+    // 服务器初始化代码：当前服务器 URL 与配置的 URL 相同或位于其路径之下即生效（可填 Hub URL）
+    for (const [url, code] of Object.entries(ConfigManager.getKernelStartupCodeByServer())) {
+        if (code && isUrlUnder(context.serverUrl, url)) {
+            snippets.push(expand(code));
+        }
+    }
+
+    return snippets.filter(code => code.trim().length > 0);
+}
@@ -0,0 +1,129 @@
+/**
+ * stream 输出合并
+ * 连续的 stdout/stderr 片段合并到同一个输出中，并按终端语义处理 \r 和退格，
+ * 使进度条原地刷新；UI 更新做节流，避免大量输出拖慢编辑器
+ */
+
+import * as vscode from 'vscode';
+
+// UI 刷新节流间隔
+const FLUSH_INTERVAL_MS = 100;
+
+/**
+ * 按终端语义累积文本：\r 回到行首覆盖，\b 光标左移，\n 换行
+ * 只有最后一行可能被改写，之前的内容直接拼接
+ */
+export class TerminalText {
+    private committed = '';
+    private line = '';
+    private cursor = 0;
+
+    write(chunk: string) {
+        for (const token of chunk.split(/(\r\n|\r|\n|[\b])/)) {
+            if (!token) {
+                continue;
+            }
+            if (token === '\n' || token === '\r\n') {
+                this.committed += this.line + '\n';
+                this.line = '';
+                this.cursor = 0;
+            } else if (token === '\r') {
+                this.cursor = 0;
+            } else if (token === '\b') {
+                this.cursor = Math.max(0, this.cursor - 1);
+            } else if (this.cursor === this.line.length) {
+                this.line += token;
+                this.cursor = this.line.length;
+            } else {
+                this.line = this.line.slice(0, this.cursor) + token + this.line.slice(this.cursor + token.length);
+                this.cursor += token.length;
+            }
+        }
+    }
+
+    get text(): string {
+        return this.committed + this.line;
+    }
+}
+
+/**
+ * 单个 Cell 执行的 stream 输出写入器
+ */
+export class StreamOutputWriter {
+    private current: { name: string; output: vscode.NotebookCellOutput; text: TerminalText } | undefined;
+    private dirty = false;
+    private timer: NodeJS.Timeout | undefined;
+
+    constructor(private readonly execution: vscode.NotebookCellExecution) { }
+
+    /**
+     * 写入 stream 片段；与上一个输出同名时合并
+     */
+    write(name: string, text: string) {
+        if (this.current && this.current.name === name) {
+            this.current.text.write(text);
+            this.scheduleFlush();
+            return;
+        }
+
+        this.flush();
+        const terminalText = new TerminalText();
+        terminalText.write(text);
+        const output = new vscode.NotebookCellOutput([this.toItem(name, terminalText.text)], { outputType: 'stream' });
+        this.current = { name, output, text: terminalText };
+        this.execution.appendOutput(output);
+    }
+
+    /**
+     * 插入其他类型输出前调用：刷新待写内容，后续 stream 使用新的输出
+     */
+    break() {
+        this.flush();
+        this.current = undefined;
+    }
+
+    /**
+     * 输出被清空时丢弃当前 stream 状态
+     */
+    reset() {
+        this.cancelFlush();
+        this.dirty = false;
+        this.current = undefined;
+    }
+
+    /**
+     * 立即把累积的文本写入 UI
+     */
+    flush(): Thenable<void> | undefined {
+        this.cancelFlush();
+        if (!this.dirty || !this.current) {
+            return undefined;
+        }
+        this.dirty = false;
+        const { name, output, text } = this.current;
+        return this.execution.replaceOutputItems([this.toItem(name, text.text)], output);
+    }
+
+    private scheduleFlush() {
+        this.dirty = true;
+        if (!this.timer) {
+            this.timer = setTimeout(() => {
+                this.timer = undefined;
+                this.flush();
+            }, FLUSH_INTERVAL_MS);
+        }
+    }
+
+    private cancelFlush() {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+    }
+
+    private toItem(name: string, text: string): vscode.NotebookCellOutputItem {
+        return name === 'stderr'
+            ? vscode.NotebookCellOutputItem.stderr(text)
+            : vscode.NotebookCellOutputItem.stdout(text);
+    }
+}
@@ -0,0 +1,246 @@
+/**
+ * ipywidgets 桥接
+ * 在内核 comm 与 notebook 渲染器（resources/renderers/ipywidgets.js）之间同步组件状态
+ */
+
+import * as vscode from 'vscode';
+import { v4 as uuidv4 } from 'uuid';
+import { Logger } from '../utils/logger';
+import { CommEvent } from './commManager';
+import { RemoteKernelSession } from './kernelSession';
+import { isMessageType, Message } from './messages';
+
+export const WIDGET_RENDERER_ID = 'jupyterhub-remote-ipywidgets';
+
+const WIDGET_TARGET = 'jupyter.widget';
+// ipywidgets 8 提供的控制 comm，用于重新连接时拉取已有组件状态
+const CONTROL_TARGET = 'jupyter.widget.control';
+
+const CAPTURED_OUTPUT_TYPES = ['stream', 'display_data', 'execute_result', 'error', 'clear_output'] as const;
+
+// 状态中二进制值的位置（对象键或数组下标组成的路径）
+type BufferPath = (string | number)[];
+
+interface NotebookWidgets {
+    session: RemoteKernelSession;
+    // model_id -> 组件状态
+    models: Map<string, any>;
+    disposables: vscode.Disposable[];
+}
+
+/**
+ * 将随消息收到的 buffers 按 buffer_paths 放回状态中（与 @jupyter-widgets/base 的 put_buffers 一致）
+ */
+function putBuffers(state: Record<string, any>, bufferPaths: BufferPath[] | undefined, buffers: Message['buffers']) {
+    (bufferPaths ?? []).forEach((path, i) => {
+        const buffer = buffers?.[i];
+        if (!buffer || path.length === 0) {
+            return;
+        }
+        let target = state;
+        for (const key of path.slice(0, -1)) {
+            target[key] ??= {};
+            target = target[key];
+        }
+        target[path[path.length - 1]] = ArrayBuffer.isView(buffer)
+            ? new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength)
+            : new DataView(buffer);
+    });
+}
+
+/**
+ * 从待发送的状态中取出二进制值（与 @jupyter-widgets/base 的 remove_buffers 一致）
+ * 对象中的二进制值被移除，数组中的替换为 null；不修改传入的状态
+ */
+function removeBuffers(state: Record<string, any>): { state: Record<string, any>; bufferPaths: BufferPath[]; buffers: (ArrayBuffer | ArrayBufferView)[] } {
+    const bufferPaths: BufferPath[] = [];
+    const buffers: (ArrayBuffer | ArrayBufferView)[] = [];
+    const isBinary = (value: unknown): value is ArrayBuffer | ArrayBufferView => value instanceof ArrayBuffer || ArrayBuffer.isView(value);
+
+    const walk = (value: any, path: BufferPath): any => {
+        if (Array.isArray(value)) {
+            return value.map((item, i) => {
+                if (isBinary(item)) {
+                    bufferPaths.push([...path, i]);
+                    buffers.push(item);
+                    return null;
+                }
+                return walk(item, [...path, i]);
+            });
+        }
+        if (value && typeof value === 'object') {
+            const result: Record<string, any> = {};
+            for (const [key, item] of Object.entries(value)) {
+                if (isBinary(item)) {
+                    bufferPaths.push([...path, key]);
+                    buffers.push(item);
+                } else {
+                    result[key] = walk(item, [...path, key]);
+                }
+            }
+            return result;
+        }
+        return value;
+    };
+
+    return { state: walk(state, []), bufferPaths, buffers };
+}
+
+export class WidgetBridge implements vscode.Disposable {
+    private messaging = vscode.notebooks.createRendererMessaging(WIDGET_RENDERER_ID);
+    private notebooks = new Map<string, NotebookWidgets>();
+    private subscription: vscode.Disposable;
+
+    constructor() {
+        this.subscription = this.messaging.onDidReceiveMessage(e => this.handleRendererMessage(e.editor, e.message));
+    }
+
+    /**
+     * 为 notebook 绑定内核连接
+     */
+    attach(notebook: vscode.NotebookDocument, session: RemoteKernelSession) {
+        const key = notebook.uri.toString();
+        this.detach(notebook.uri);
+
+        const entry: NotebookWidgets = { session, models: new Map(), disposables: [] };
+        entry.disposables.push(session.comms.onDidReceiveMessage(e => this.handleCommEvent(key, entry, e)));
+        entry.disposables.push(session.addMessageHook(msg => this.captureOutput(key, entry, msg)));
+        this.notebooks.set(key, entry);
+
+        // 复用已有会话时组件可能已经存在，通过控制 comm 请求全部状态
+        const controlId = uuidv4();
+        session.comms.open(controlId, CONTROL_TARGET);
+        session.comms.sendMessage(controlId, { method: 'request_states' });
+    }
+
+    /**
+     * 解除绑定（内核重启、断开或切换内核时）
+     */
+    detach(uri: vscode.Uri) {
+        const key = uri.toString();
+        const entry = this.notebooks.get(key);
+        if (!entry) {
+            return;
+        }
+        entry.disposables.forEach(d => d.dispose());
+        this.notebooks.delete(key);
+        this.post(key, { type: 'reset' });
+    }
+
+    dispose() {
+        for (const entry of this.notebooks.values()) {
+            entry.disposables.forEach(d => d.dispose());
+        }
+        this.notebooks.clear();
+        this.subscription.dispose();
+    }
+
+    private handleCommEvent(key: string, entry: NotebookWidgets, e: CommEvent) {
+        if (e.targetName === CONTROL_TARGET) {
+            if (e.type === 'msg' && e.data.method === 'update_states') {
+                // states 为 model_id -> { model_name, model_module, state }，buffer_paths 相对于整个 states
+                const states = e.data.states ?? {};
+                putBuffers(states, e.data.buffer_paths, e.buffers);
+                for (const [modelId, model] of Object.entries<any>(states)) {
+                    entry.models.set(modelId, model.state ?? {});
+                }
+                this.post(key, { type: 'state', models: Object.fromEntries(entry.models) });
+                entry.session.comms.close(e.commId);
+            }
+            return;
+        }
+        if (e.targetName !== WIDGET_TARGET) {
+            return;
+        }
+
+        if (e.type === 'open') {
+            const state = e.data.state ?? {};
+            putBuffers(state, e.data.buffer_paths, e.buffers);
+            entry.models.set(e.commId, state);
+            this.post(key, { type: 'update', modelId: e.commId, state });
+        } else if (e.type === 'msg') {
+            const method = e.data.method;
+            if (method === 'update' || method === 'echo_update') {
+                putBuffers(e.data.state ?? {}, e.data.buffer_paths, e.buffers);
+                const state = entry.models.get(e.commId) ?? {};
+                Object.assign(state, e.data.state);
+                entry.models.set(e.commId, state);
+                this.post(key, { type: 'update', modelId: e.commId, state: e.data.state });
+            } else if (method === 'custom') {
+                this.post(key, { type: 'custom', modelId: e.commId, content: e.data.content });
+            }
+        } else if (e.type === 'close') {
+            entry.models.delete(e.commId);
+            this.post(key, { type: 'close', modelId: e.commId });
+        }
+    }
+
+    /**
+     * Output 组件：parent 与其 msg_id 相同的输出写入组件而不是 Cell
+     */
+    private captureOutput(key: string, entry: NotebookWidgets, msg: Message): boolean {
+        const parentId = msg.parent_header.msg_id;
+        if (!parentId || !isMessageType(msg, ...CAPTURED_OUTPUT_TYPES)) {
+            return false;
+        }
+
+        for (const [modelId, state] of entry.models) {
+            if (state._model_name !== 'OutputModel' || state.msg_id !== parentId) {
+                continue;
+            }
+
+            const outputs: any[] = state.outputs ?? [];
+            if (isMessageType(msg, 'clear_output')) {
+                outputs.length = 0;
+            } else if (isMessageType(msg, 'stream')) {
+                const { name, text } = msg.content;
+                const last = outputs[outputs.length - 1];
+                if (last && last.output_type === 'stream' && last.name === name) {
+                    last.text += text;
+                } else {
+                    outputs.push({ output_type: 'stream', name, text });
+                }
+            } else if (isMessageType(msg, 'error')) {
+                const { ename, evalue, traceback } = msg.content;
+                outputs.push({ output_type: 'error', ename, evalue, traceback });
+            } else if (isMessageType(msg, 'display_data', 'execute_result')) {
+                outputs.push({ output_type: msg.header.msg_type, data: msg.content.data, metadata: msg.content.metadata ?? {} });
+            }
+            state.outputs = outputs;
+            this.post(key, { type: 'update', modelId, state: { outputs } });
+            return true;
+        }
+        return false;
+    }
+
+    private handleRendererMessage(editor: vscode.NotebookEditor, message: any) {
+        const key = editor.notebook.uri.toString();
+        const entry = this.notebooks.get(key);
+        if (!entry) {
+            return;
+        }
+
+        if (message?.type === 'requestState') {
+            this.messaging.postMessage({ type: 'state', models: Object.fromEntries(entry.models) }, editor);
+        } else if (message?.type === 'update') {
+            const state = entry.models.get(message.modelId);
+            if (state) {
+                Object.assign(state, message.state);
+            }
+            const { state: data, bufferPaths, buffers } = removeBuffers(message.state ?? {});
+            entry.session.comms.sendMessage(message.modelId, { method: 'update', state: data, buffer_paths: bufferPaths }, buffers);
+        } else if (message?.type === 'custom') {
+            entry.session.comms.sendMessage(message.modelId, { method: 'custom', content: message.content });
+        } else {
+            Logger.warn('[Widgets] Unknown renderer message', message);
+        }
+    }
+
+    private post(key: string, message: any) {
+        for (const editor of vscode.window.visibleNotebookEditors) {
+            if (editor.notebook.uri.toString() === key) {
+                this.messaging.postMessage(message, editor);
+            }
+        }
+    }
+}
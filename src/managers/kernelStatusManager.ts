@@ -0,0 +1,135 @@
+import * as vscode from 'vscode';
+import { NotebookKernelStatus } from '../kernel/controller';
+import { KernelControllerManager } from '../providers/kernelControllerManager';
+
+const CONNECTION_LABELS: Record<NotebookKernelStatus['connection'], string> = {
+    notStarted: '未启动',
+    connecting: '连接中',
+    connected: '已连接',
+    reconnecting: '重连中',
+    disconnected: '已断开',
+    dead: '已断开'
+};
+
+const EXECUTION_LABELS: Record<NotebookKernelStatus['execution'], string> = {
+    unknown: '未知',
+    starting: '启动中',
+    idle: '空闲',
+    busy: '忙碌'
+};
+
+/**
+ * 当前 notebook 的远程内核状态栏
+ */
+export class KernelStatusManager implements vscode.Disposable {
+    private statusBarItem: vscode.StatusBarItem;
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(private readonly controllerManager: KernelControllerManager) {
+        this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 99);
+        this.statusBarItem.command = 'jupyterhub.showKernelActions';
+
+        this.disposables.push(
+            vscode.window.onDidChangeActiveNotebookEditor(() => this.update()),
+            controllerManager.onDidChangeKernelStatus(uri => {
+                const active = vscode.window.activeNotebookEditor?.notebook;
+                if (!uri || (active && active.uri.toString() === uri.toString())) {
+                    this.update();
+                }
+            })
+        );
+        this.update();
+    }
+
+    /**
+     * 根据当前活动 notebook 刷新状态栏
+     */
+    private update() {
+        const notebook = vscode.window.activeNotebookEditor?.notebook;
+        const controller = notebook && this.controllerManager.findSelectedController(notebook);
+        if (!notebook || !controller) {
+            this.statusBarItem.hide();
+            return;
+        }
+
+        const status = controller.getStatus(notebook);
+        let icon: string;
+        let label: string;
+        if (status.connection === 'dead') {
+            icon = '$(error)';
+            label = CONNECTION_LABELS.dead;
+        } else if (status.connection === 'reconnecting' || status.connection === 'connecting') {
+            icon = '$(sync~spin)';
+            label = CONNECTION_LABELS[status.connection];
+        } else if (status.connection === 'notStarted') {
+            icon = '$(circle-large-outline)';
+            label = CONNECTION_LABELS.notStarted;
+        } else if (status.execution === 'busy' || status.execution === 'starting') {
+            icon = '$(loading~spin)';
+            label = EXECUTION_LABELS[status.execution];
+        } else {
+            icon = '$(circle-large-outline)';
+            label = EXECUTION_LABELS[status.execution];
+        }
+
+        this.statusBarItem.text = `${icon} ${controller.displayName}: ${label}`;
+        this.statusBarItem.tooltip = [
+            `远程内核: ${controller.displayName}`,
+            `连接状态: ${CONNECTION_LABELS[status.connection]}`,
+            `执行状态: ${EXECUTION_LABELS[status.execution]}`,
+            '点击管理内核'
+        ].join('\n');
+        this.statusBarItem.backgroundColor = status.connection === 'dead'
+            ? new vscode.ThemeColor('statusBarItem.errorBackground')
+            : undefined;
+        this.statusBarItem.show();
+    }
+
+    /**
+     * 点击状态栏：中断、重启、重连或切换内核
+     */
+    async showActions() {
+        const notebook = vscode.window.activeNotebookEditor?.notebook;
+        const controller = notebook && this.controllerManager.findSelectedController(notebook);
+        if (!notebook || !controller) {
+            return;
+        }
+
+        const connected = controller.hasNotebook(notebook);
+        const items: (vscode.QuickPickItem & { action: string })[] = [];
+        if (connected) {
+            items.push(
+                { label: '$(debug-pause) 中断内核', action: 'interrupt' },
+                { label: '$(debug-restart) 重启内核', action: 'restart' }
+            );
+        }
+        items.push(
+            { label: '$(plug) 重新连接', description: connected ? undefined : '建立内核连接', action: 'reconnect' },
+            { label: '$(arrow-swap) 切换内核', action: 'switch' }
+        );
+
+        const picked = await vscode.window.showQuickPick(items, { placeHolder: `远程内核: ${controller.displayName}` });
+        if (!picked) {
+            return;
+        }
+        switch (picked.action) {
+            case 'interrupt':
+                await controller.interrupt(notebook);
+                break;
+            case 'restart':
+                await this.controllerManager.restartKernel(notebook.uri);
+                break;
+            case 'reconnect':
+                await controller.reconnect(notebook);
+                break;
+            case 'switch':
+                await vscode.commands.executeCommand('notebook.selectKernel');
+                break;
+        }
+    }
+
+    dispose() {
+        this.disposables.forEach(d => d.dispose());
+        this.statusBarItem.dispose();
+    }
+}
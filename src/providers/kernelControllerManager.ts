@@ -1,30 +1,54 @@
 
 import * as vscode from 'vscode';
-import { KernelsApi } from '../api/kernels';
+import { KernelsApi, KernelSpec } from '../api/kernels';
 import { RemoteKernelController } from '../kernel/controller';
+import { RemoteKernelSession } from '../kernel/kernelSession';
+import { WidgetBridge } from '../kernel/widgetBridge';
+import { ConfigManager } from '../utils/config';
 import { Logger } from '../utils/logger';
 
 export class KernelControllerManager {
     private controllers: RemoteKernelController[] = [];
+    private controllerSubscriptions: vscode.Disposable[] = [];
+    // 服务器上运行中的内核（kernel id -> 附加到该内核的控制器）
+    private runningKernelControllers = new Map<string, { controller: RemoteKernelController; subscription: vscode.Disposable }>();
+    // 服务器的默认 kernelspec
+    private defaultKernelName: string | undefined;
+    private connection: { kernelsApi: KernelsApi; serverUrl: string; token: string; specs: Record<string, KernelSpec> } | undefined;
+    private disposables: vscode.Disposable[] = [];
+    // 定时同步运行中的内核（间隔与内核视图的刷新间隔一致）
+    private syncTimer: NodeJS.Timeout | undefined;
 
-    constructor() { }
+    // 任一 notebook 的内核状态变化（连接、执行、选中的控制器）
+    private _onDidChangeKernelStatus = new vscode.EventEmitter<vscode.Uri | undefined>();
+    readonly onDidChangeKernelStatus = this._onDidChangeKernelStatus.event;
+
+    constructor(private readonly widgetBridge: WidgetBridge) {
+        this.disposables.push(vscode.workspace.onDidOpenNotebookDocument(nb => this.updateAffinity(nb)));
+    }
 
     async refreshControllers(kernelsApi: KernelsApi, serverUrl: string, token: string) {
         // 清理旧的
-        this.dispose();
+        this.clearControllers();
 
         try {
             const specs = await kernelsApi.getKernelSpecs();
             Logger.log('Available kernelspecs:', specs);
+            this.defaultKernelName = specs.default;
+            this.connection = { kernelsApi, serverUrl, token, specs: specs.kernelspecs };
 
             for (const [name, spec] of Object.entries(specs.kernelspecs)) {
                 // 为每个 spec 创建 controller
                 // 将 name 注入到 spec 对象中方便使用
                 const fullSpec = { ...spec, name: name };
-                const controller = new RemoteKernelController(fullSpec, kernelsApi, serverUrl, token);
+                const controller = new RemoteKernelController(fullSpec, kernelsApi, serverUrl, token, this.widgetBridge);
+                this.controllerSubscriptions.push(controller.onDidChangeStatus(uri => this._onDidChangeKernelStatus.fire(uri)));
                 this.controllers.push(controller);
             }
             Logger.log(`Registered ${this.controllers.length} kernel controllers`);
+            vscode.workspace.notebookDocuments.forEach(nb => this.updateAffinity(nb));
+            await this.syncRunningKernels();
+            this.startAutoSync();
             if (this.controllers.length > 0) {
                 vscode.window.setStatusBarMessage(`已加载 ${this.controllers.length} 个远程内核`, 5000);
             } else {
@@ -36,8 +60,253 @@ export class KernelControllerManager {
         }
     }
 
-    dispose() {
+    private startAutoSync() {
+        this.stopAutoSync();
+        const interval = ConfigManager.getKernelRefreshInterval();
+        if (interval > 0) {
+            this.syncTimer = setInterval(() => {
+                this.syncRunningKernels();
+            }, interval * 1000);
+        }
+    }
+
+    private stopAutoSync() {
+        if (this.syncTimer) {
+            clearInterval(this.syncTimer);
+            this.syncTimer = undefined;
+        }
+    }
+
+    /**
+     * 为服务器上每个运行中的内核维护一个控制器，已停止的内核移除对应控制器
+     */
+    async syncRunningKernels() {
+        if (!this.connection) {
+            return;
+        }
+        const { kernelsApi, serverUrl, token, specs } = this.connection;
+        let kernels;
+        try {
+            kernels = await kernelsApi.listKernels();
+        } catch (e) {
+            Logger.warn('Failed to list running kernels:', e);
+            return;
+        }
+        // 等待期间连接已断开或切换到其他服务器
+        if (this.connection?.kernelsApi !== kernelsApi) {
+            return;
+        }
+
+        // 由 kernelspec 控制器为已打开的 notebook 启动的内核，已在选择器中显示为该控制器，不再重复列出
+        const owned = new Set(this.controllers.flatMap(c => c.connectedKernelIds));
+        const onServer = new Set(kernels.map(k => k.id));
+        const running = new Set(kernels.map(k => k.id).filter(id => !owned.has(id)));
+        for (const [id, entry] of Array.from(this.runningKernelControllers)) {
+            // 已停止的内核移除；已归 kernelspec 控制器的内核仅在附加控制器未被使用时移除
+            if (!onServer.has(id) || (owned.has(id) && entry.controller.connectedKernelIds.length === 0)) {
+                entry.subscription.dispose();
+                entry.controller.dispose();
+                this.runningKernelControllers.delete(id);
+            }
+        }
+
+        for (const kernel of kernels) {
+            if (!running.has(kernel.id) || this.runningKernelControllers.has(kernel.id)) {
+                continue;
+            }
+            const spec = specs[kernel.name];
+            if (!spec) {
+                Logger.warn(`Unknown kernelspec ${kernel.name} for running kernel ${kernel.id}`);
+                continue;
+            }
+            const controller = new RemoteKernelController({ ...spec, name: kernel.name }, kernelsApi, serverUrl, token, this.widgetBridge, kernel);
+            const subscription = controller.onDidChangeStatus(uri => this._onDidChangeKernelStatus.fire(uri));
+            this.runningKernelControllers.set(kernel.id, { controller, subscription });
+        }
+    }
+
+    /**
+     * 让 notebook 连接到服务器上已在运行的内核（当前 notebook，或新建一个）
+     */
+    async attachToKernel(kernelId: string | undefined, extensionId: string) {
+        if (!this.connection) {
+            vscode.window.showWarningMessage('请先连接 JupyterHub 服务器');
+            return;
+        }
+        await this.syncRunningKernels();
+        if (!kernelId) {
+            const picked = await vscode.window.showQuickPick(
+                Array.from(this.runningKernelControllers, ([id, e]) => ({ label: e.controller.displayName, description: id, id })),
+                { placeHolder: '选择要连接的运行中内核' }
+            );
+            if (!picked) {
+                return;
+            }
+            kernelId = picked.id;
+        }
+        const controller = this.runningKernelControllers.get(kernelId)?.controller;
+        const owner = vscode.workspace.notebookDocuments.find(nb => this.getSession(nb)?.kernelId === kernelId);
+        if (!controller && owner) {
+            // 内核已连接到打开的 notebook，直接显示该 notebook，避免再建立一个连接
+            await vscode.window.showNotebookDocument(owner);
+            return;
+        }
+        if (!controller) {
+            vscode.window.showErrorMessage(`内核 ${kernelId} 不存在或已停止`);
+            return;
+        }
+
+        let editor = vscode.window.activeNotebookEditor;
+        if (!editor || editor.notebook.notebookType !== 'jupyter-notebook') {
+            const notebook = await vscode.workspace.openNotebookDocument('jupyter-notebook', new vscode.NotebookData([
+                new vscode.NotebookCellData(vscode.NotebookCellKind.Code, '', controller.language)
+            ]));
+            editor = await vscode.window.showNotebookDocument(notebook);
+        }
+
+        await vscode.commands.executeCommand('notebook.selectKernel', {
+            notebookEditor: editor,
+            id: controller.id,
+            extension: extensionId
+        });
+        await controller.reconnect(editor.notebook);
+    }
+
+    /**
+     * 根据 notebook metadata 中的 kernelspec / language_info 自动推荐内核，
+     * 都不匹配时推荐服务器的默认 kernelspec
+     */
+    private updateAffinity(notebook: vscode.NotebookDocument) {
+        if (notebook.notebookType !== 'jupyter-notebook' || this.controllers.length === 0) {
+            return;
+        }
+
+        // 不同版本的 ipynb 序列化器把 notebook metadata 放在不同位置
+        const metadata = notebook.metadata?.metadata ?? notebook.metadata?.custom?.metadata ?? notebook.metadata ?? {};
+        const kernelName: string | undefined = metadata.kernelspec?.name;
+        const language: string | undefined = (metadata.language_info?.name ?? metadata.kernelspec?.language)?.toLowerCase();
+
+        const preferred = (kernelName && this.controllers.find(c => c.kernelName === kernelName))
+            ?? (language && this.controllers.find(c => c.language === language))
+            ?? this.controllers.find(c => c.kernelName === this.defaultKernelName);
+        if (!preferred) {
+            return;
+        }
+        for (const controller of this.controllers) {
+            controller.setAffinity(
+                notebook,
+                controller === preferred ? vscode.NotebookControllerAffinity.Preferred : vscode.NotebookControllerAffinity.Default
+            );
+        }
+    }
+
+    /**
+     * 从命令参数（notebook 工具栏传入的上下文）或当前活动编辑器解析 notebook
+     */
+    resolveNotebook(arg?: any): vscode.NotebookDocument | undefined {
+        const uri: vscode.Uri | undefined = arg?.notebookEditor?.notebookUri ?? (arg instanceof vscode.Uri ? arg : undefined);
+        if (uri) {
+            return vscode.workspace.notebookDocuments.find(nb => nb.uri.toString() === uri.toString());
+        }
+        return vscode.window.activeNotebookEditor?.notebook;
+    }
+
+    /**
+     * 查找已为该 notebook 建立连接的控制器
+     */
+    findController(notebook: vscode.NotebookDocument): RemoteKernelController | undefined {
+        return this.allControllers().find(c => c.hasNotebook(notebook));
+    }
+
+    /**
+     * 查找支持指定语言的内核规格控制器，优先服务器默认 kernelspec
+     */
+    findControllerByLanguage(language: string): RemoteKernelController | undefined {
+        const candidates = this.controllers.filter(c => c.language === language.toLowerCase());
+        return candidates.find(c => c.kernelName === this.defaultKernelName) ?? candidates[0];
+    }
+
+    /**
+     * 查找 notebook 当前选中的远程内核控制器（可能尚未连接）
+     */
+    findSelectedController(notebook: vscode.NotebookDocument): RemoteKernelController | undefined {
+        return this.allControllers().find(c => c.isSelected(notebook)) ?? this.findController(notebook);
+    }
+
+    private allControllers(): RemoteKernelController[] {
+        return [...this.controllers, ...Array.from(this.runningKernelControllers.values(), e => e.controller)];
+    }
+
+    /**
+     * 获取 notebook 已建立的远程内核连接
+     */
+    getSession(notebook: vscode.NotebookDocument): RemoteKernelSession | undefined {
+        return this.findController(notebook)?.getSession(notebook);
+    }
+
+    /**
+     * 重启 notebook 内核（notebook 工具栏命令）
+     */
+    async restartKernel(arg?: any, runAll = false) {
+        const notebook = this.resolveNotebook(arg);
+        const controller = notebook && this.findController(notebook);
+        if (!notebook || !controller) {
+            vscode.window.showWarningMessage('当前 notebook 尚未连接远程内核');
+            return;
+        }
+        if (!runAll) {
+            const confirmation = await vscode.window.showWarningMessage(
+                '确定要重启内核吗？所有变量将丢失。',
+                { modal: true },
+                '重启'
+            );
+            if (confirmation !== '重启') {
+                return;
+            }
+        }
+        await controller.restartKernel(notebook, runAll);
+    }
+
+    /**
+     * 释放全部控制器（断开服务器连接时）
+     */
+    clearControllers() {
+        this.stopAutoSync();
+        this.controllerSubscriptions.forEach(d => d.dispose());
+        this.controllerSubscriptions = [];
         this.controllers.forEach(c => c.dispose());
         this.controllers = [];
+        this.runningKernelControllers.forEach(e => {
+            e.subscription.dispose();
+            e.controller.dispose();
+        });
+        this.runningKernelControllers.clear();
+        this.connection = undefined;
+        this._onDidChangeKernelStatus.fire(undefined);
+    }
+
+    /**
+     * 调试 Cell（Cell 工具栏命令传入 Cell，命令面板使用当前选中的 Cell）
+     */
+    async debugCell(arg?: any) {
+        let cell: vscode.NotebookCell | undefined = arg?.notebook && arg?.document ? arg : undefined;
+        if (!cell) {
+            const editor = vscode.window.activeNotebookEditor;
+            cell = editor && editor.selection.start < editor.notebook.cellCount
+                ? editor.notebook.cellAt(editor.selection.start)
+                : undefined;
+        }
+        const controller = cell && this.findSelectedController(cell.notebook);
+        if (!cell || cell.kind !== vscode.NotebookCellKind.Code || !controller) {
+            vscode.window.showWarningMessage('请选择已连接远程内核的 notebook 中的代码 Cell');
+            return;
+        }
+        await controller.debugCell(cell);
+    }
+
+    dispose() {
+        this.clearControllers();
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
     }
 }
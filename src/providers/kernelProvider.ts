@@ -137,6 +137,11 @@ export class KernelProvider implements vscode.TreeDataProvider<KernelTreeItem> {
                         vscode.TreeItemCollapsibleState.Expanded,
                         'category'
                     ),
+                    new KernelTreeItem(
+                        '运行中内核 (Kernels)',
+                        vscode.TreeItemCollapsibleState.Collapsed,
+                        'category'
+                    ),
                     new KernelTreeItem(
                         '运行中终端 (Terminals)',
                         vscode.TreeItemCollapsibleState.Expanded,
@@ -183,6 +188,22 @@ export class KernelProvider implements vscode.TreeDataProvider<KernelTreeItem> {
                 });
             }
 
+            if (element.label === '运行中内核 (Kernels)') {
+                // 获取运行中的内核（包括没有会话的内核）
+                const kernels = await this.kernelsApi.listKernels();
+                return kernels.map(kernel => {
+                    const item = new KernelTreeItem(
+                        `${kernel.name} (${kernel.id.slice(0, 8)})`,
+                        vscode.TreeItemCollapsibleState.None,
+                        'kernel',
+                        kernel
+                    );
+                    item.description = kernel.execution_state;
+                    item.tooltip = `ID: ${kernel.id}\nState: ${kernel.execution_state}\nConnections: ${kernel.connections}\nLast Activity: ${kernel.last_activity}`;
+                    return item;
+                });
+            }
+
             if (element.label === '运行中终端 (Terminals)') {
                 // 获取终端
                 const terminals = await this.terminalsApi.listTerminals();
@@ -224,14 +245,8 @@ export class KernelProvider implements vscode.TreeDataProvider<KernelTreeItem> {
             if (confirmation !== '关闭') return;
 
             try {
-                // Need a deleteSession API? 
-                // We don't have SessionsApi wrapper, but we can assume KernelsApi can handle it or we add deleteSession to KernelsApi
-                // Actually KernelsApi needs deleteSession.
-                // For now, let's just kill the kernel if we can't delete session yet.
-                // But deleting kernel kills session.
-                if (session.kernel) {
-                    await this.kernelsApi.stopKernel(session.kernel.id);
-                }
+                // 删除会话会同时关闭其内核
+                await this.kernelsApi.deleteSession(session.id);
                 this.refresh();
                 vscode.window.showInformationMessage(`会话已关闭`);
             } catch (error: any) {
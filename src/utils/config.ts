@@ -161,6 +161,70 @@ export class ConfigManager {
         await config.update('recentServers', recent, vscode.ConfigurationTarget.Global);
     }
 
+    /**
+     * notebook 关闭后如何处理其远程内核
+     */
+    static getKernelClosePolicy(): 'keepRunning' | 'shutdownOnClose' | 'shutdownWhenIdle' {
+        return vscode.workspace.getConfiguration(this.CONFIG_SECTION).get<'keepRunning' | 'shutdownOnClose' | 'shutdownWhenIdle'>('kernel.closePolicy', 'keepRunning');
+    }
+
+    /**
+     * closePolicy 为 shutdownWhenIdle 时，内核空闲多少分钟后关闭
+     */
+    static getKernelIdleShutdownMinutes(): number {
+        return vscode.workspace.getConfiguration(this.CONFIG_SECTION).get<number>('kernel.idleShutdownMinutes', 30);
+    }
+
+    /**
+     * 连接内核后是否切换到 notebook 所在目录
+     */
+    static getKernelSetWorkingDirectory(): boolean {
+        return vscode.workspace.getConfiguration(this.CONFIG_SECTION).get<boolean>('kernel.setWorkingDirectory', true);
+    }
+
+    /**
+     * 连接内核后设置的环境变量
+     */
+    static getKernelEnv(): Record<string, string> {
+        return vscode.workspace.getConfiguration(this.CONFIG_SECTION).get<Record<string, string>>('kernel.env', {});
+    }
+
+    /**
+     * 按 kernelspec 名称或语言配置的启动代码
+     */
+    static getKernelStartupCode(): Record<string, string | string[]> {
+        return vscode.workspace.getConfiguration(this.CONFIG_SECTION).get<Record<string, string | string[]>>('kernel.startupCode', {});
+    }
+
+    /**
+     * 按服务器 URL 配置的启动代码
+     */
+    static getKernelStartupCodeByServer(): Record<string, string | string[]> {
+        return vscode.workspace.getConfiguration(this.CONFIG_SECTION).get<Record<string, string | string[]>>('kernel.startupCodeByServer', {});
+    }
+
+    /**
+     * 是否记录内核消息（调试协议问题用）
+     */
+    static getMessageTraceEnabled(): boolean {
+        return vscode.workspace.getConfiguration(this.CONFIG_SECTION).get<boolean>('kernel.messageTrace.enabled', false);
+    }
+
+    static async setMessageTraceEnabled(enabled: boolean): Promise<void> {
+        await vscode.workspace.getConfiguration(this.CONFIG_SECTION).update(
+            'kernel.messageTrace.enabled',
+            enabled,
+            vscode.ConfigurationTarget.Global
+        );
+    }
+
+    /**
+     * 内核消息记录的最大条数
+     */
+    static getMessageTraceBufferSize(): number {
+        return vscode.workspace.getConfiguration(this.CONFIG_SECTION).get<number>('kernel.messageTrace.bufferSize', 2000);
+    }
+
     /**
      * 删除某个服务器相关的配置（profile/user_options）
      */
@@ -65,6 +65,29 @@ export function buildHubTokenPageUrl(hubBaseUrl: string): string {
     return `${base}/hub/token`;
 }
 
+/**
+ * Check whether `url` is `baseUrl` itself or lies under it.
+ * The origins must match and the path must be equal or continue after a `/` boundary,
+ * so https://host/user/a does not match https://host/user/ab.
+ */
+export function isUrlUnder(url: string, baseUrl: string): boolean {
+    let parsed: URL;
+    let base: URL;
+    try {
+        parsed = new URL(url.trim());
+        base = new URL(baseUrl.trim());
+    } catch {
+        return false;
+    }
+    if (parsed.origin !== base.origin) {
+        return false;
+    }
+
+    const path = parsed.pathname.replace(/\/+$/, '');
+    const basePath = base.pathname.replace(/\/+$/, '');
+    return path === basePath || path.startsWith(`${basePath}/`);
+}
+
 function sanitizePathSegment(segment: string): string {
     // Avoid invalid path chars across platforms.
     return segment